@@ -0,0 +1,32 @@
+import { Track } from './Lavalink';
+import Player from './Player';
+import { DecodedTrackInfo } from './TrackCodec';
+
+/**
+ * Finds a track related to the one that just finished
+ * @param {Player} player The player to find a track for
+ * @param {DecodedTrackInfo} info The info of the finished track
+ * @param {string[]} exclude Identifiers of recently played tracks
+ * @returns {Promise<Track>} The track to play, null if none was found
+ */
+export type AutoplayResolver = (player: Player, info: DecodedTrackInfo, exclude: string[]) => Track | Promise<Track>;
+
+/**
+ * The built-in resolver, uses the YouTube mix of the track or a search for the author through the node
+ * @param {Player} player The player to find a track for
+ * @param {DecodedTrackInfo} info The info of the finished track
+ * @param {string[]} exclude Identifiers of recently played tracks
+ * @returns {Promise<Track>}
+ */
+export async function defaultAutoplayResolver(player: Player, info: DecodedTrackInfo, exclude: string[]): Promise<Track> {
+    let identifier = info.sourceName === 'youtube' ?
+        `https://www.youtube.com/watch?v=${info.identifier}&list=RD${info.identifier}` :
+        `ytsearch:${info.author}`;
+
+    let result = await player.node.loadTracks(identifier);
+    if (result.loadType === 'NO_MATCHES' || result.loadType === 'LOAD_FAILED') {
+        return null;
+    }
+
+    return result.tracks.find(track => !track.info.isStream && !exclude.includes(track.info.identifier)) || null;
+}
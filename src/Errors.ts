@@ -0,0 +1,134 @@
+import { TrackEndEvent, TrackExceptionEvent } from './Protocol';
+
+/**
+ * Thrown when no voice server update arrives in time after joining a channel
+ * @prop {string} guildId The guild ID
+ * @prop {number} timeout The timeout in ms
+ */
+export class JoinTimeoutError extends Error {
+    guildId: string;
+    timeout: number;
+
+    constructor(guildId: string, timeout: number) {
+        super(`Voice connection timeout, no voice server update for guild ${guildId} after ${timeout}ms`);
+        this.name = 'JoinTimeoutError';
+        this.guildId = guildId;
+        this.timeout = timeout;
+    }
+}
+
+/**
+ * Thrown when no connected node can take a player
+ * @prop {string} region The requested region, if any
+ */
+export class NoNodesAvailableError extends Error {
+    region: string;
+
+    constructor(region?: string) {
+        super(region ? `No available voice nodes in region ${region}` : 'No available voice nodes.');
+        this.name = 'NoNodesAvailableError';
+        this.region = region || null;
+    }
+}
+
+/**
+ * Thrown when a player is joined to a missing or unknown channel
+ * @prop {string} guildId The guild ID
+ * @prop {string} channelId The channel ID
+ */
+export class InvalidChannelError extends Error {
+    guildId: string;
+    channelId: string;
+
+    constructor(guildId: string, channelId: string) {
+        super(`Invalid Channel ID ${channelId} for guild ${guildId}`);
+        this.name = 'InvalidChannelError';
+        this.guildId = guildId;
+        this.channelId = channelId;
+    }
+}
+
+/**
+ * Thrown when a join is cancelled through its AbortSignal, by leave or because the player disconnected
+ * @prop {string} guildId The guild ID
+ */
+export class JoinAbortedError extends Error {
+    guildId: string;
+
+    constructor(guildId: string, reason?: string) {
+        super(`Joining guild ${guildId} was aborted${reason ? `: ${reason}` : ''}`);
+        this.name = 'JoinAbortedError';
+        this.guildId = guildId;
+    }
+}
+
+/**
+ * Thrown when a saved player can not be restored because the client is ready and does not know its guild
+ * @prop {string} guildId The guild ID
+ */
+export class UnknownGuildError extends Error {
+    guildId: string;
+
+    constructor(guildId: string) {
+        super(`Unable to restore player, unknown guild ${guildId}`);
+        this.name = 'UnknownGuildError';
+        this.guildId = guildId;
+    }
+}
+
+/**
+ * Thrown when the shard of a saved player is not ready in time
+ * @prop {string} guildId The guild ID
+ * @prop {number} timeout The timeout in ms
+ */
+export class RestoreTimeoutError extends Error {
+    guildId: string;
+    timeout: number;
+
+    constructor(guildId: string, timeout: number) {
+        super(`Unable to restore player, the shard of guild ${guildId} was not ready after ${timeout}ms`);
+        this.name = 'RestoreTimeoutError';
+        this.guildId = guildId;
+        this.timeout = timeout;
+    }
+}
+
+/**
+ * Thrown when Lavalink does not acknowledge a command in time
+ * @prop {string} guildId The guild ID
+ * @prop {string} op The op of the command
+ * @prop {number} timeout The timeout in ms
+ */
+export class CommandTimeoutError extends Error {
+    guildId: string;
+    op: string;
+    timeout: number;
+
+    constructor(guildId: string, op: string, timeout: number) {
+        super(`Lavalink did not acknowledge ${op} for guild ${guildId} within ${timeout}ms`);
+        this.name = 'CommandTimeoutError';
+        this.guildId = guildId;
+        this.op = op;
+        this.timeout = timeout;
+    }
+}
+
+/**
+ * Thrown when a track fails to play or a command is cancelled before it is acknowledged
+ * @prop {string} guildId The guild ID
+ * @prop {string} track The track, if any
+ * @prop {Object} event The exception or end event reported by Lavalink, null if the command was cancelled
+ */
+export class PlaybackError extends Error {
+    guildId: string;
+    track: string;
+    event: TrackExceptionEvent | TrackEndEvent;
+
+    constructor(guildId: string, track: string, message: string, event?: TrackExceptionEvent | TrackEndEvent) {
+        super(message);
+        this.name = 'PlaybackError';
+        this.guildId = guildId;
+        this.track = track || null;
+        this.event = event || null;
+    }
+}
@@ -0,0 +1,160 @@
+import { EqualizerBand, Filters } from './Protocol';
+
+/**
+ * The names of the built-in filter presets
+ */
+export type FilterPreset = 'bassboost' | 'nightcore' | 'vaporwave' | '8D';
+
+/**
+ * The built-in filter presets
+ */
+export const FilterPresets: { [P in FilterPreset]: Filters } = {
+    bassboost: {
+        equalizer: [
+            { band: 0, gain: 0.3 },
+            { band: 1, gain: 0.25 },
+            { band: 2, gain: 0.2 },
+            { band: 3, gain: 0.1 },
+            { band: 4, gain: 0.05 },
+        ],
+    },
+    nightcore: {
+        timescale: { speed: 1.2, pitch: 1.2, rate: 1 },
+    },
+    vaporwave: {
+        timescale: { speed: 0.85, pitch: 0.8, rate: 1 },
+        equalizer: [
+            { band: 0, gain: 0.3 },
+            { band: 1, gain: 0.3 },
+        ],
+    },
+    '8D': {
+        rotation: { rotationHz: 0.2 },
+    },
+};
+
+/**
+ * Check that a number is within a range
+ * @param {string} name The name of the value, used in the error
+ * @param {number} value The value to check, undefined is allowed
+ * @param {number} min The minimum value
+ * @param {number} max The maximum value
+ * @private
+ */
+function checkRange(name: string, value: number, min: number, max: number) {
+    if (value === undefined) return;
+    if (typeof value !== 'number' || isNaN(value) || value < min || value > max) {
+        throw new RangeError(`${name} must be a number between ${min} and ${max}`);
+    }
+}
+
+/**
+ * Check that a number is greater than 0 and at most a maximum
+ * @param {string} name The name of the value, used in the error
+ * @param {number} value The value to check, undefined is allowed
+ * @param {number} max The maximum value
+ * @private
+ */
+function checkPositive(name: string, value: number, max: number) {
+    if (value === undefined) return;
+    if (typeof value !== 'number' || isNaN(value) || value <= 0 || value > max) {
+        throw new RangeError(`${name} must be a number greater than 0 and at most ${max}`);
+    }
+}
+
+/**
+ * Validate filters against the ranges allowed by Lavalink
+ * @param {Filters} filters The filters to validate
+ * @returns {void}
+ * @throws {RangeError} If a value is out of range
+ */
+export function validateFilters(filters: Filters): void {
+    checkRange('volume', filters.volume, 0, 5);
+
+    if (filters.equalizer) {
+        for (let band of filters.equalizer) {
+            checkRange('equalizer band', band.band, 0, 14);
+            checkRange('equalizer gain', band.gain, -0.25, 1);
+        }
+    }
+
+    if (filters.karaoke) {
+        checkRange('karaoke.level', filters.karaoke.level, 0, 1);
+        checkRange('karaoke.monoLevel', filters.karaoke.monoLevel, 0, 1);
+        checkRange('karaoke.filterBand', filters.karaoke.filterBand, 0, Infinity);
+        checkRange('karaoke.filterWidth', filters.karaoke.filterWidth, 0, Infinity);
+    }
+
+    if (filters.timescale) {
+        checkPositive('timescale.speed', filters.timescale.speed, Infinity);
+        checkPositive('timescale.pitch', filters.timescale.pitch, Infinity);
+        checkPositive('timescale.rate', filters.timescale.rate, Infinity);
+    }
+
+    if (filters.tremolo) {
+        checkPositive('tremolo.frequency', filters.tremolo.frequency, Infinity);
+        checkRange('tremolo.depth', filters.tremolo.depth, 0, 1);
+    }
+
+    if (filters.vibrato) {
+        checkPositive('vibrato.frequency', filters.vibrato.frequency, 14);
+        checkRange('vibrato.depth', filters.vibrato.depth, 0, 1);
+    }
+
+    if (filters.rotation) {
+        checkRange('rotation.rotationHz', filters.rotation.rotationHz, -Infinity, Infinity);
+    }
+
+    if (filters.distortion) {
+        for (let key of Object.keys(filters.distortion) as (keyof Filters['distortion'])[]) {
+            checkRange(`distortion.${key}`, filters.distortion[key], -Infinity, Infinity);
+        }
+    }
+
+    if (filters.channelMix) {
+        for (let key of Object.keys(filters.channelMix) as (keyof Filters['channelMix'])[]) {
+            checkRange(`channelMix.${key}`, filters.channelMix[key], 0, 1);
+        }
+    }
+
+    if (filters.lowPass) {
+        checkRange('lowPass.smoothing', filters.lowPass.smoothing, 0, Infinity);
+    }
+}
+
+/**
+ * Merge equalizer bands, later bands replace earlier ones with the same band number
+ * @param {EqualizerBand[]} current The current bands
+ * @param {EqualizerBand[]} bands The bands to merge in
+ * @returns {EqualizerBand[]} The merged bands sorted by band number
+ */
+export function mergeEqualizer(current: EqualizerBand[], bands: EqualizerBand[]): EqualizerBand[] {
+    let merged = new Map<number, number>();
+    for (let band of [...(current || []), ...bands]) {
+        merged.set(band.band, band.gain);
+    }
+
+    return [...merged.entries()]
+        .sort((a, b) => a[0] - b[0])
+        .map(([band, gain]) => ({ band, gain }));
+}
+
+/**
+ * Compose several filter objects, equalizer bands are merged and other filters are replaced, a null value removes that filter
+ * @param {...Filters} filters The filters to compose, later ones take precedence
+ * @returns {Filters}
+ */
+export function composeFilters(...filters: Filters[]): Filters {
+    let result: Filters = {};
+    for (let filter of filters) {
+        let { equalizer, ...rest } = filter;
+        Object.assign(result, rest);
+        if (equalizer === null) {
+            result.equalizer = null;
+        } else if (equalizer) {
+            result.equalizer = mergeEqualizer(result.equalizer, equalizer);
+        }
+    }
+
+    return result;
+}
@@ -1,5 +1,132 @@
-import WebSocket from "ws";
-import { EventEmitter } from "events";
+import WebSocket from 'ws';
+import http from 'http';
+import https from 'https';
+import { EventEmitter } from 'events';
+import { fromV4Message, InboundPayload, NodeStats, OutboundPayload, RestLoadResult, RestTrack, toV4Request, validateMessage } from './Protocol';
+
+/**
+ * The load type returned by the Lavalink loadtracks endpoint
+ */
+export type LoadType = 'TRACK_LOADED' | 'PLAYLIST_LOADED' | 'SEARCH_RESULT' | 'NO_MATCHES' | 'LOAD_FAILED';
+
+/**
+ * Decoded information about a Lavalink track
+ */
+export interface TrackInfo {
+	identifier: string;
+	isSeekable: boolean;
+	author: string;
+	length: number;
+	isStream: boolean;
+	position: number;
+	title: string;
+	uri: string;
+}
+
+/**
+ * A base64 encoded Lavalink track along with its decoded info
+ */
+export interface Track {
+	track: string;
+	info: TrackInfo;
+}
+
+/**
+ * The response of the Lavalink loadtracks endpoint
+ */
+export interface LoadTracksResponse {
+	loadType: LoadType;
+	playlistInfo: { name?: string, selectedTrack?: number };
+	tracks: Track[];
+	exception?: { message: string, severity: string };
+}
+
+/**
+ * How a node reconnects after the websocket closes
+ */
+export interface ReconnectPolicy {
+	strategy: 'exponential' | 'linear' | 'fixed';
+	baseDelay: number;
+	maxDelay: number;
+	jitter: number;
+	maxAttempts: number;
+}
+
+/**
+ * How a node checks the health of its connection, an interval of 0 disables the heartbeat
+ */
+export interface HeartbeatOptions {
+	interval: number;
+	timeout: number;
+	statsTimeout: number;
+}
+
+/**
+ * How a node buffers commands sent while it is disconnected, a size of 0 disables the buffer
+ */
+export interface BufferOptions {
+	size: number;
+	ttl: number;
+}
+
+/**
+ * Why a buffered command was dropped
+ */
+export type DropReason = 'overflow' | 'expired' | 'dead' | 'moved';
+
+/**
+ * The options used to create a Lavalink node
+ */
+export interface LavalinkOptions {
+	host: string;
+	port: number;
+	region: string;
+	numShards: number;
+	userId: string;
+	password: string;
+	timeout?: number;
+	secure?: boolean;
+	path?: string;
+	headers?: { [s: string]: string };
+	clientName?: string;
+	tls?: { ca?: string | Buffer | (string | Buffer)[], rejectUnauthorized?: boolean };
+	restPort?: number;
+	restSecure?: boolean;
+	resumeKey?: string;
+	resumeTimeout?: number;
+	weight?: number;
+	priority?: number;
+	tags?: string[];
+	reconnect?: Partial<ReconnectPolicy>;
+	heartbeat?: Partial<HeartbeatOptions>;
+	buffer?: Partial<BufferOptions>;
+	version?: 3 | 4;
+	requestTimeout?: number;
+}
+
+/**
+ * The events emitted by a Lavalink node
+ */
+export interface LavalinkEvents {
+	ready: [];
+	resumed: [];
+	disconnect: [];
+	reconnecting: [number, number];
+	dead: [];
+	unhealthy: [string];
+	error: [Error | string];
+	warn: [string, any?];
+	message: [InboundPayload];
+	dropped: [OutboundPayload, DropReason];
+}
+
+interface Lavalink {
+	on<K extends keyof LavalinkEvents>(event: K, listener: (...args: LavalinkEvents[K]) => void): this;
+	once<K extends keyof LavalinkEvents>(event: K, listener: (...args: LavalinkEvents[K]) => void): this;
+	off<K extends keyof LavalinkEvents>(event: K, listener: (...args: LavalinkEvents[K]) => void): this;
+	removeListener<K extends keyof LavalinkEvents>(event: K, listener: (...args: LavalinkEvents[K]) => void): this;
+	emit<K extends keyof LavalinkEvents>(event: K, ...args: LavalinkEvents[K]): boolean;
+}
 
 /**
  * Represents a Lavalink node
@@ -7,6 +134,12 @@ import { EventEmitter } from "events";
  * @prop {string} host The hostname for the node
  * @prop {number} port The port number for the node
  * @prop {string} address The full ws address for the node
+ * @prop {boolean} secure Whether the websocket uses wss
+ * @prop {string} path The path prefix used for the websocket and REST api
+ * @prop {object} headers Additional headers sent with the websocket and REST requests
+ * @prop {string} clientName The name sent as Client-Name header
+ * @prop {object} tls The TLS options used for secure connections
+ * @prop {string} restAddress The full http address for the node REST api
  * @prop {string} region The region for this node
  * @prop {string} userId The client user id
  * @prop {number} numShards The total number of shards the bot is running
@@ -14,11 +147,33 @@ import { EventEmitter } from "events";
  * @prop {boolean} connected If it's connected to the node
  * @prop {boolean} draining True if this node will no longer take new connections
  * @prop {object} stats The Lavalink node stats
+ * @prop {string} resumeKey The key used to resume the session, null if resuming is disabled
+ * @prop {number} resumeTimeout The time in seconds Lavalink keeps the session alive after a disconnect
+ * @prop {boolean} resumed True if the current connection resumed a previous session
+ * @prop {number} weight The relative capacity of the node, scores used for node selection are divided by it
+ * @prop {number} priority Nodes with a higher priority are selected before any other node
+ * @prop {string[]} tags Tags used to pin players to this node
+ * @prop {object} reconnectPolicy The reconnect backoff policy
+ * @prop {boolean} dead True if the node gave up reconnecting
+ * @prop {boolean} healthy False if the last health check failed, until the node reconnects
+ * @prop {number} latency The round-trip time of the last heartbeat in ms
+ * @prop {number} version The protocol version of the node, 3 for websocket ops and 4 for the session REST api, null until detected
+ * @prop {number} requestTimeout The time in ms after which a REST request is aborted
+ * @prop {string} sessionId The session ID sent by a v4 node in the ready op
+ * @prop {object} bufferOptions The size and ttl of the outbound buffer
+ * @prop {Object[]} buffer The commands sent while disconnected, sent in order once the node is ready
  */
 class Lavalink extends EventEmitter {
-
 	address: string
 	port: number
+	secure: boolean
+	path: string
+	headers: { [s: string]: string }
+	clientName: string
+	tls: { ca?: string | Buffer | (string | Buffer)[], rejectUnauthorized?: boolean }
+	restPort: number
+	restAddress: string
+	restSecure: boolean
 	region: string
 	host: string
 	numShards: number
@@ -28,10 +183,34 @@ class Lavalink extends EventEmitter {
 	draining: boolean
 	retries: number
 	reconnectTimeout: number
-	stats: {players?: number, playingPlayers?: number, cpu?: { systemLoad: number, cores: number} }
+	reconnectPolicy: ReconnectPolicy
+	dead: boolean
+	heartbeatOptions: HeartbeatOptions
+	bufferOptions: BufferOptions
+	buffer: { payload: OutboundPayload, expiresAt: number }[]
+	healthy: boolean
+	latency: number
+	lastStatsAt: number
+	pingSentAt: number
+	heartbeatInterval: NodeJS.Timeout
+	pongTimeout: NodeJS.Timeout
+	resumeKey: string
+	resumeTimeout: number
+	resumed: boolean
+	version: number
+	requestTimeout: number
+	sessionId: string
+	weight: number
+	priority: number
+	tags: string[]
+	stats: Partial<NodeStats>
 	ws: WebSocket
 	reconnectInterval: NodeJS.Timeout
 	disconnectHandler: () => void;
+	private detectVersion: boolean;
+	private destroyed: boolean;
+	private restQueue: Promise<void>;
+	private bufferTimer: NodeJS.Timeout;
 
 	/**
 	 * Lavalink constructor
@@ -43,13 +222,50 @@ class Lavalink extends EventEmitter {
      * @param {string} options.userId The user id of the bot
      * @param {string} options.password The password for the Lavalink node
 	 * @param {number} [options.timeout=5000] Optional timeout in ms used for the reconnect backoff
+	 * @param {boolean} [options.secure=false] Whether to use wss and https
+	 * @param {string} [options.path] A path prefix, e.g. when the node is behind a reverse proxy
+	 * @param {Object} [options.headers] Additional headers sent with the websocket and REST requests
+	 * @param {string} [options.clientName='eris-lavalink'] The name sent as Client-Name header
+	 * @param {Object} [options.tls] TLS options for secure connections
+	 * @param {string|Buffer|Array} [options.tls.ca] Trusted certificate authorities
+	 * @param {boolean} [options.tls.rejectUnauthorized=true] Whether to reject invalid certificates
+	 * @param {number} [options.restPort] The port of the REST api, defaults to the websocket port
+	 * @param {boolean} [options.restSecure] Whether to use https for the REST api, defaults to options.secure
+	 * @param {string} [options.resumeKey] The key used to resume the session, persist it to resume after a restart
+	 * @param {number} [options.resumeTimeout=60] The time in seconds Lavalink keeps the session alive after a disconnect
+	 * @param {number} [options.weight=1] The relative capacity of the node
+	 * @param {number} [options.priority=0] Nodes with a higher priority are selected before any other node
+	 * @param {string[]} [options.tags] Tags used to pin players to this node
+	 * @param {Object} [options.reconnect] The reconnect backoff policy
+	 * @param {string} [options.reconnect.strategy='exponential'] One of exponential, linear or fixed
+	 * @param {number} [options.reconnect.baseDelay] The first delay in ms, defaults to options.timeout
+	 * @param {number} [options.reconnect.maxDelay=100000] The maximum delay in ms
+	 * @param {number} [options.reconnect.jitter=0] Random variation of the delay as a fraction, from 0 to 1
+	 * @param {number} [options.reconnect.maxAttempts=Infinity] Attempts after which the node is declared dead
+	 * @param {Object} [options.heartbeat] The health check options
+	 * @param {number} [options.heartbeat.interval=30000] The ping interval in ms, 0 disables health checks
+	 * @param {number} [options.heartbeat.timeout=10000] The time in ms to wait for a pong
+	 * @param {number} [options.heartbeat.statsTimeout=90000] The time in ms without stats after which the node is unhealthy
+	 * @param {Object} [options.buffer] The outbound buffer used while disconnected
+	 * @param {number} [options.buffer.size=100] The maximum number of buffered commands, the oldest are dropped first, 0 disables the buffer
+	 * @param {number} [options.buffer.ttl=30000] The time in ms after which a buffered command is dropped
+	 * @param {number} [options.version] The protocol version, 3 or 4, detected once through the version endpoint if omitted
+	 * @param {number} [options.requestTimeout=10000] The time in ms after which a REST request is aborted
 	 */
-	constructor(options:  {host: string, port: number, region: string, numShards: number, userId: string, password: string, timeout?: number}) {
+	constructor(options: LavalinkOptions) {
 		super();
 
 		this.host = options.host;
 		this.port = options.port || 80;
-		this.address = `ws://${this.host}:${this.port}`;
+		this.secure = options.secure || false;
+		this.path = options.path ? `/${options.path.replace(/^\/+|\/+$/g, '')}` : '';
+		this.address = `${this.secure ? 'wss' : 'ws'}://${this.host}:${this.port}${this.path}`;
+		this.headers = options.headers || {};
+		this.clientName = options.clientName || 'eris-lavalink';
+		this.tls = options.tls || {};
+		this.restPort = options.restPort || this.port;
+		this.restSecure = options.restSecure !== undefined ? options.restSecure : this.secure;
+		this.restAddress = `${this.restSecure ? 'https' : 'http'}://${this.host}:${this.restPort}${this.path}`;
 		this.region = options.region || null;
 		this.userId = options.userId;
 		this.numShards = options.numShards;
@@ -59,6 +275,43 @@ class Lavalink extends EventEmitter {
 		this.retries = 0;
 		this.reconnectTimeout = options.timeout || 5000;
 		this.reconnectInterval = null;
+		this.reconnectPolicy = Object.assign({
+			strategy: 'exponential',
+			baseDelay: this.reconnectTimeout,
+			maxDelay: 100000,
+			jitter: 0,
+			maxAttempts: Infinity,
+		}, options.reconnect);
+		this.dead = false;
+		this.heartbeatOptions = Object.assign({
+			interval: 30000,
+			timeout: 10000,
+			statsTimeout: 90000,
+		}, options.heartbeat);
+		this.bufferOptions = Object.assign({
+			size: 100,
+			ttl: 30000,
+		}, options.buffer);
+		this.buffer = [];
+		this.bufferTimer = null;
+		this.healthy = false;
+		this.latency = null;
+		this.lastStatsAt = null;
+		this.pingSentAt = null;
+		this.heartbeatInterval = null;
+		this.pongTimeout = null;
+		this.resumeKey = options.resumeKey || null;
+		this.resumeTimeout = options.resumeTimeout || 60;
+		this.resumed = false;
+		this.version = options.version || null;
+		this.sessionId = null;
+		this.detectVersion = !options.version;
+		this.requestTimeout = options.requestTimeout || 10000;
+		this.destroyed = false;
+		this.restQueue = Promise.resolve();
+		this.weight = options.weight || 1;
+		this.priority = options.priority || 0;
+		this.tags = options.tags || [];
 		this.stats = { players: 0, playingPlayers: 0 };
 		this.disconnectHandler = this.disconnected.bind(this);
 
@@ -66,18 +319,65 @@ class Lavalink extends EventEmitter {
 	}
 
 	/**
-	 * Connect to the websocket server
+	 * Connect to the node, detects the protocol version first unless it is configured or already detected
 	 * @private
 	 */
 	connect() {
-		//@ts-ignore
-		this.ws = new WebSocket(this.address, {headers: {
-			'Authorization': this.password,
+		if (!this.detectVersion) {
+			return this.openWebsocket();
+		}
+
+		// nodes older than 3.7 have no version endpoint, failed requests are retried on the next connect
+		this.requestText('GET', '/version')
+			.then(version => {
+				this.detectVersion = false;
+				return parseInt(version, 10) >= 4 ? 4 : 3;
+			}, () => 3)
+			.then(version => {
+				if (this.destroyed) return;
+				this.version = version;
+				this.openWebsocket();
+			})
+			.catch(err => {
+				this.emit('error', err);
+			});
+	}
+
+	/**
+	 * Open the websocket, v4 nodes serve it under /v4/websocket
+	 * @private
+	 */
+	openWebsocket() {
+		let headers: { [s: string]: string | number } = Object.assign({}, this.headers, {
+			Authorization: this.password,
 			'Num-Shards': this.numShards,
 			'User-Id': this.userId,
-		}});
+			'Client-Name': this.clientName,
+		});
+
+		if (this.version === 4) {
+			if (this.resumeKey && this.sessionId) {
+				headers['Session-Id'] = this.sessionId;
+			}
+		} else if (this.resumeKey) {
+			headers['Resume-Key'] = this.resumeKey;
+		}
+
+		this.resumed = false;
+		let address = this.version === 4 ? `${this.address}/v4/websocket` : this.address;
+		// @ts-ignore
+		this.ws = new WebSocket(address, { headers, ca: this.tls.ca, rejectUnauthorized: this.tls.rejectUnauthorized });
 
-		this.ws.on('open', this.ready.bind(this));
+		this.ws.on('upgrade', (res) => {
+			this.resumed = res.headers['session-resumed'] === 'true';
+		});
+		this.ws.on('open', () => {
+			// v4 nodes are ready once they sent the session ID
+			if (this.version !== 4) {
+				this.ready();
+			}
+		});
+		this.ws.on('pong', this.onPong.bind(this));
 		this.ws.on('message', this.onMessage.bind(this));
 		this.ws.on('close', this.disconnectHandler);
 		this.ws.on('error', (err) => {
@@ -90,8 +390,7 @@ class Lavalink extends EventEmitter {
 	 * @private
 	 */
 	reconnect() {
-		let interval = this.retryInterval();
-		this.reconnectInterval = setTimeout(this.reconnect.bind(this), interval);
+		this.reconnectInterval = null;
 		this.retries++;
 		this.connect();
 	}
@@ -100,6 +399,13 @@ class Lavalink extends EventEmitter {
 	 * Destroy the websocket connection
 	 */
 	destroy() {
+		this.destroyed = true;
+		this.stopHeartbeat();
+		if (this.reconnectInterval) {
+			clearTimeout(this.reconnectInterval);
+			this.reconnectInterval = null;
+		}
+
 		if (this.ws) {
 			this.ws.removeListener('close', this.disconnectHandler);
 			this.ws.close();
@@ -117,23 +423,132 @@ class Lavalink extends EventEmitter {
 		}
 
 		this.connected = true;
+		this.dead = false;
+		this.healthy = true;
 		this.retries = 0;
+		this.startHeartbeat();
+
+		if (this.resumeKey) {
+			this.configureResuming(this.resumeKey, this.resumeTimeout);
+		}
+
+		this.flushBuffer();
 		this.emit('ready');
+		if (this.resumed) {
+			this.emit('resumed');
+		}
 	}
 
 	/**
-	 * Called when the websocket disconnects	 
+	 * Configure session resuming, the key is sent as Resume-Key header on the next connect
+	 * @param {string} key The key used to resume the session
+	 * @param {number} [timeout=60] The time in seconds Lavalink keeps the session alive after a disconnect
+	 * @returns {void}
+	 */
+	configureResuming(key: string, timeout?: number): void {
+		this.resumeKey = key;
+		this.resumeTimeout = timeout || this.resumeTimeout;
+		this.send({
+			op: 'configureResuming',
+			key: this.resumeKey,
+			timeout: this.resumeTimeout,
+		});
+	}
+
+	/**
+	 * Called when the websocket disconnects
 	*/
-	 private disconnected() {
+	private disconnected() {
 		this.connected = false;
-		if (!this.reconnectInterval) {
+		this.stopHeartbeat();
+		if (this.retries === 0) {
 			this.emit('disconnect');
 		}
 
 		delete this.ws;
 
-		if (!this.reconnectInterval) {
-			this.reconnectInterval = setTimeout(this.reconnect.bind(this), this.reconnectTimeout);
+		if (this.retries >= this.reconnectPolicy.maxAttempts) {
+			this.dead = true;
+			this.emit('dead');
+			this.dropBuffer('dead');
+			return;
+		}
+
+		let interval = this.retryInterval();
+		this.emit('reconnecting', this.retries + 1, interval);
+		this.reconnectInterval = setTimeout(this.reconnect.bind(this), interval);
+	}
+
+	/**
+	 * Start the health checks
+	 * @private
+	 */
+	private startHeartbeat() {
+		this.stopHeartbeat();
+		this.lastStatsAt = Date.now();
+		if (!this.heartbeatOptions.interval) return;
+		this.heartbeatInterval = setInterval(this.heartbeat.bind(this), this.heartbeatOptions.interval);
+	}
+
+	/**
+	 * Stop the health checks
+	 * @private
+	 */
+	private stopHeartbeat() {
+		if (this.heartbeatInterval) {
+			clearInterval(this.heartbeatInterval);
+			this.heartbeatInterval = null;
+		}
+
+		if (this.pongTimeout) {
+			clearTimeout(this.pongTimeout);
+			this.pongTimeout = null;
+		}
+	}
+
+	/**
+	 * Ping the node and check that stats are still received
+	 * @private
+	 */
+	private heartbeat() {
+		if (!this.ws || !this.connected) return;
+
+		let { timeout, statsTimeout } = this.heartbeatOptions;
+		if (statsTimeout && Date.now() - this.lastStatsAt > statsTimeout) {
+			return this.unhealthy(`No stats received for ${statsTimeout}ms`);
+		}
+
+		if (this.pongTimeout) return;
+
+		this.pingSentAt = Date.now();
+		this.pongTimeout = setTimeout(() => this.unhealthy(`No pong received within ${timeout}ms`), timeout);
+		this.ws.ping();
+	}
+
+	/**
+	 * Called when the node answers a ping
+	 * @private
+	 */
+	private onPong() {
+		if (!this.pongTimeout) return;
+
+		clearTimeout(this.pongTimeout);
+		this.pongTimeout = null;
+		this.latency = Date.now() - this.pingSentAt;
+	}
+
+	/**
+	 * Mark the node as unhealthy and force a reconnect
+	 * @param {string} reason The failed check
+	 * @private
+	 */
+	private unhealthy(reason: string) {
+		this.healthy = false;
+		this.stopHeartbeat();
+		this.emit('unhealthy', reason);
+
+		if (this.ws) {
+			this.ws.terminate();
 		}
 	}
 
@@ -142,15 +557,37 @@ class Lavalink extends EventEmitter {
 	 * @private
 	 */
 	private retryInterval() {
-		let retries = Math.min(this.retries-1, 5);
-		return Math.pow(retries + 5, 2) * 1000;
+		let { strategy, baseDelay, maxDelay, jitter } = this.reconnectPolicy,
+			interval = baseDelay;
+
+		if (strategy === 'exponential') {
+			interval = baseDelay * Math.pow(2, this.retries);
+		} else if (strategy === 'linear') {
+			interval = baseDelay * (this.retries + 1);
+		}
+
+		interval = Math.min(interval, maxDelay);
+		if (jitter) {
+			interval += interval * jitter * ((Math.random() * 2) - 1);
+		}
+
+		return Math.max(0, Math.round(interval));
 	}
 
 	/**
-	 * Send data to Lavalink
-	 * @param {*} data Data to send
+	 * Send data to Lavalink, ops are sent as player updates through the REST api to v4 nodes
+	 * and buffered while the node is disconnected
+	 * @param {OutboundPayload} data Data to send
 	 */
-	send(data: any) {
+	send(data: OutboundPayload) {
+		if (!this.connected || (this.version === 4 && !this.sessionId)) {
+			return this.bufferCommand(data);
+		}
+
+		if (this.version === 4) {
+			return this.sendRest(data);
+		}
+
 		const ws = this.ws;
 		if (!ws) return;
 
@@ -162,6 +599,217 @@ class Lavalink extends EventEmitter {
 		ws.send(payload);
 	}
 
+	/**
+	 * Buffer a command until the node is ready, only the last volume and seek of a guild are kept
+	 * @param {OutboundPayload} data The command
+	 * @private
+	 */
+	private bufferCommand(data: OutboundPayload) {
+		let { size, ttl } = this.bufferOptions;
+		if (!size) return;
+		if (this.dead) {
+			return this.emit('dropped', data, 'dead');
+		}
+
+		this.pruneBuffer();
+		if (data.op === 'volume' || data.op === 'seek') {
+			this.buffer = this.buffer.filter(({ payload }) => payload.op !== data.op || payload.guildId !== data.guildId);
+		}
+
+		this.buffer.push({ payload: data, expiresAt: Date.now() + ttl });
+		while (this.buffer.length > size) {
+			this.emit('dropped', this.buffer.shift().payload, 'overflow');
+		}
+		this.scheduleExpiry();
+	}
+
+	/**
+	 * Drop the expired commands of the buffer
+	 * @private
+	 */
+	private pruneBuffer() {
+		let now = Date.now();
+		while (this.buffer.length && this.buffer[0].expiresAt <= now) {
+			this.emit('dropped', this.buffer.shift().payload, 'expired');
+		}
+	}
+
+	/**
+	 * Drop the oldest buffered command once it expires, the commands expire in order
+	 * @private
+	 */
+	private scheduleExpiry() {
+		if (this.bufferTimer || !this.buffer.length) return;
+
+		this.bufferTimer = setTimeout(() => {
+			this.bufferTimer = null;
+			this.pruneBuffer();
+			this.scheduleExpiry();
+		}, Math.max(0, this.buffer[0].expiresAt - Date.now()));
+		this.bufferTimer.unref();
+	}
+
+	/**
+	 * Drop the buffered commands of a guild, used when its player moved to another node
+	 * @param {string} guildId The guild ID
+	 * @returns {void}
+	 */
+	discardBuffered(guildId: string): void {
+		let buffer = this.buffer;
+		this.buffer = [];
+		for (let entry of buffer) {
+			if (entry.payload.op !== 'configureResuming' && entry.payload.guildId === guildId) {
+				this.emit('dropped', entry.payload, 'moved');
+			} else {
+				this.buffer.push(entry);
+			}
+		}
+	}
+
+	/**
+	 * Send the buffered commands in order
+	 * @private
+	 */
+	private flushBuffer() {
+		this.pruneBuffer();
+		clearTimeout(this.bufferTimer);
+		this.bufferTimer = null;
+
+		let buffer = this.buffer;
+		this.buffer = [];
+		for (let { payload } of buffer) {
+			this.send(payload);
+		}
+	}
+
+	/**
+	 * Drop every buffered command
+	 * @param {string} reason Why the commands are dropped
+	 * @private
+	 */
+	private dropBuffer(reason: DropReason) {
+		clearTimeout(this.bufferTimer);
+		this.bufferTimer = null;
+		let buffer = this.buffer;
+		this.buffer = [];
+		for (let { payload } of buffer) {
+			this.emit('dropped', payload, reason);
+		}
+	}
+
+	/**
+	 * Send an op as the equivalent v4 REST request, requests are sent one after another to keep the order of the ops
+	 * @param {OutboundPayload} data The op to send
+	 * @private
+	 */
+	private sendRest(data: OutboundPayload) {
+		if (!this.sessionId || !this.connected) return;
+
+		let { method, path, body } = toV4Request(data, this.sessionId);
+		this.restQueue = this.restQueue
+			.then(() => this.requestText(method, path, body))
+			.then(() => undefined, err => {
+				this.emit('error', err);
+			});
+	}
+
+	/**
+	 * Load tracks from the node using an identifier or search query
+	 * @param {string} identifier The identifier to load, e.g. a url or `ytsearch:query`
+	 * @returns {Promise<LoadTracksResponse>}
+	 */
+	loadTracks(identifier: string): Promise<LoadTracksResponse> {
+		if (this.version === 4) {
+			return this.request<RestLoadResult>('GET', `/v4/loadtracks?identifier=${encodeURIComponent(identifier)}`).then(fromV4LoadResult);
+		}
+		return this.request<LoadTracksResponse>('GET', `/loadtracks?identifier=${encodeURIComponent(identifier)}`);
+	}
+
+	/**
+	 * Decode a single base64 track
+	 * @param {string} track The base64 track to decode
+	 * @returns {Promise<TrackInfo>}
+	 */
+	decodeTrack(track: string): Promise<TrackInfo> {
+		if (this.version === 4) {
+			return this.request<RestTrack>('GET', `/v4/decodetrack?encodedTrack=${encodeURIComponent(track)}`).then(data => data.info);
+		}
+		return this.request<TrackInfo>('GET', `/decodetrack?track=${encodeURIComponent(track)}`);
+	}
+
+	/**
+	 * Decode several base64 tracks at once
+	 * @param {string[]} tracks The base64 tracks to decode
+	 * @returns {Promise<Track[]>}
+	 */
+	decodeTracks(tracks: string[]): Promise<Track[]> {
+		if (this.version === 4) {
+			return this.request<RestTrack[]>('POST', '/v4/decodetracks', tracks).then(data => data.map(fromV4Track));
+		}
+		return this.request<Track[]>('POST', '/decodetracks', tracks);
+	}
+
+	/**
+	 * Make a request to the node REST api
+	 * @param {string} method The http method
+	 * @param {string} path The path to request
+	 * @param {*} [body] Optional body to send as json
+	 * @private
+	 */
+	private request<T>(method: string, path: string, body?: any): Promise<T> {
+		return this.requestText(method, path, body).then(text => {
+			try {
+				return JSON.parse(text);
+			} catch (err) {
+				throw new Error('Unable to parse REST response.');
+			}
+		});
+	}
+
+	/**
+	 * Make a request to the node REST api without parsing the response, aborted after the request timeout
+	 * @param {string} method The http method
+	 * @param {string} path The path to request
+	 * @param {*} [body] Optional body to send as json
+	 * @private
+	 */
+	private requestText(method: string, path: string, body?: any): Promise<string> {
+		let payload = body !== undefined ? JSON.stringify(body) : null;
+		let headers: http.OutgoingHttpHeaders = Object.assign({}, this.headers, {
+			Authorization: this.password,
+			'Client-Name': this.clientName,
+			Accept: 'application/json',
+		});
+
+		if (payload) {
+			headers['Content-Type'] = 'application/json';
+			headers['Content-Length'] = Buffer.byteLength(payload);
+		}
+
+		return new Promise((res, rej) => {
+			let req = (this.restSecure ? https : http).request(`${this.restAddress}${path}`, { method, headers, ca: this.tls.ca, rejectUnauthorized: this.tls.rejectUnauthorized }, response => {
+				let chunks: Buffer[] = [];
+				response.on('data', (chunk: Buffer) => chunks.push(chunk));
+				response.on('end', () => {
+					if (response.statusCode < 200 || response.statusCode >= 300) {
+						return rej(new Error(`Lavalink REST request failed with status ${response.statusCode}`));
+					}
+
+					res(Buffer.concat(chunks).toString());
+				});
+			});
+
+			req.setTimeout(this.requestTimeout, () => {
+				req.destroy(new Error(`Lavalink REST request timed out after ${this.requestTimeout}ms`));
+			});
+			req.on('error', rej);
+			if (payload) {
+				req.write(payload);
+			}
+			req.end();
+		});
+	}
+
 	/**
 	 * Handle message from the server
 	 * @param {string} message Raw websocket message
@@ -174,11 +822,56 @@ class Lavalink extends EventEmitter {
 			return this.emit('error', 'Unable to parse ws message.');
 		}
 
-		if (data.op && data.op === 'stats') {
-			this.stats = data;
+		if (this.version === 4) {
+			data = fromV4Message(data);
 		}
 
-		this.emit('message', data);
+		let error = validateMessage(data);
+		if (error) {
+			return this.emit('warn', `Malformed ws message: ${error}`, data);
+		}
+
+		let payload: InboundPayload = data;
+		if (payload.op === 'ready') {
+			this.version = 4;
+			this.sessionId = payload.sessionId;
+			this.resumed = payload.resumed;
+			this.ready();
+		} else if (payload.op === 'stats') {
+			this.stats = payload;
+			this.lastStatsAt = Date.now();
+		}
+
+		this.emit('message', payload);
+	}
+}
+
+/**
+ * Convert a v4 track to the legacy shape
+ * @param {Object} track The v4 track
+ * @private
+ */
+function fromV4Track(track: RestTrack): Track {
+	return { track: track.encoded, info: track.info };
+}
+
+/**
+ * Convert a v4 loadtracks response to the legacy shape
+ * @param {Object} result The v4 response
+ * @private
+ */
+function fromV4LoadResult(result: RestLoadResult): LoadTracksResponse {
+	switch (result.loadType) {
+		case 'track':
+			return { loadType: 'TRACK_LOADED', playlistInfo: {}, tracks: [fromV4Track(result.data)] };
+		case 'playlist':
+			return { loadType: 'PLAYLIST_LOADED', playlistInfo: result.data.info, tracks: result.data.tracks.map(fromV4Track) };
+		case 'search':
+			return { loadType: 'SEARCH_RESULT', playlistInfo: {}, tracks: result.data.map(fromV4Track) };
+		case 'error':
+			return { loadType: 'LOAD_FAILED', playlistInfo: {}, tracks: [], exception: { message: result.data.message, severity: String(result.data.severity).toUpperCase() } };
+		default:
+			return { loadType: 'NO_MATCHES', playlistInfo: {}, tracks: [] };
 	}
 }
 
@@ -0,0 +1,282 @@
+import Lavalink from './Lavalink';
+import { NodeStats } from './Protocol';
+
+/**
+ * The stats of a node at a point in time
+ */
+export interface NodeStatsSample extends NodeStats {
+    timestamp: number;
+}
+
+/**
+ * The metrics of a node
+ */
+export interface NodeMetrics {
+    host: string;
+    region: string;
+    connected: boolean;
+    healthy: boolean;
+    latency: number;
+    reconnects: number;
+    players: number;
+    stats: NodeStatsSample;
+    history: NodeStatsSample[];
+}
+
+/**
+ * A plain snapshot of all metrics
+ */
+export interface MetricsSnapshot {
+    timestamp: number;
+    players: number;
+    playingPlayers: number;
+    failovers: number;
+    joins: number;
+    joinTimeouts: number;
+    joinFailures: number;
+    joinLatency: { last: number, average: number, max: number };
+    trackExceptions: number;
+    trackStuck: number;
+    nodes: NodeMetrics[];
+}
+
+/**
+ * Escape a Prometheus label value
+ * @param {string} value The label value
+ * @private
+ */
+function escapeLabel(value: string): string {
+    return String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Records node stats history, failovers, reconnects, joins and track errors of a PlayerManager
+ * @prop {number} historySize The number of stats samples kept per node
+ * @prop {number} failovers The number of players switched to another node
+ * @prop {number} joins The number of successful joins
+ * @prop {number} joinTimeouts The number of joins that timed out
+ * @prop {number} joinFailures The number of joins that failed for another reason
+ * @prop {number} trackExceptions The number of track exception events
+ * @prop {number} trackStuck The number of track stuck events
+ */
+export default class Metrics {
+    historySize: number;
+    failovers: number;
+    joins: number;
+    joinTimeouts: number;
+    joinFailures: number;
+    joinLatencyTotal: number;
+    joinLatencyLast: number;
+    joinLatencyMax: number;
+    trackExceptions: number;
+    trackStuck: number;
+    reconnects: Map<string, number>;
+    history: Map<string, NodeStatsSample[]>;
+
+    /**
+     * Metrics constructor
+     * @param {Object} [options] Metrics options
+     * @param {number} [options.historySize=60] The number of stats samples kept per node
+     */
+    constructor(options?: { historySize?: number }) {
+        options = options || {};
+        this.historySize = options.historySize !== undefined ? options.historySize : 60;
+        this.reconnects = new Map();
+        this.history = new Map();
+        this.reset();
+    }
+
+    /**
+     * Reset all counters and the stats history
+     * @returns {void}
+     */
+    reset(): void {
+        this.failovers = 0;
+        this.joins = 0;
+        this.joinTimeouts = 0;
+        this.joinFailures = 0;
+        this.joinLatencyTotal = 0;
+        this.joinLatencyLast = 0;
+        this.joinLatencyMax = 0;
+        this.trackExceptions = 0;
+        this.trackStuck = 0;
+        this.reconnects.clear();
+        this.history.clear();
+    }
+
+    /**
+     * Record the stats sent by a node
+     * @param {Lavalink} node The node
+     * @param {NodeStats} stats The stats
+     * @returns {void}
+     */
+    recordStats(node: Lavalink, stats: NodeStats): void {
+        let history = this.history.get(node.host);
+        if (!history) {
+            history = [];
+            this.history.set(node.host, history);
+        }
+
+        let { players, playingPlayers, uptime, memory, cpu, frameStats } = stats;
+        history.push({ timestamp: Date.now(), players, playingPlayers, uptime, memory, cpu, frameStats });
+        if (history.length > this.historySize) {
+            history.splice(0, history.length - this.historySize);
+        }
+    }
+
+    /**
+     * Record a reconnect attempt of a node
+     * @param {Lavalink} node The node
+     * @returns {void}
+     */
+    recordReconnect(node: Lavalink): void {
+        this.reconnects.set(node.host, (this.reconnects.get(node.host) || 0) + 1);
+    }
+
+    /**
+     * Record a player switched to another node
+     * @returns {void}
+     */
+    recordFailover(): void {
+        this.failovers++;
+    }
+
+    /**
+     * Record a successful join
+     * @param {number} latency The time in ms until the player was ready
+     * @returns {void}
+     */
+    recordJoin(latency: number): void {
+        this.joins++;
+        this.joinLatencyTotal += latency;
+        this.joinLatencyLast = latency;
+        this.joinLatencyMax = Math.max(this.joinLatencyMax, latency);
+    }
+
+    /**
+     * Record a join that timed out
+     * @returns {void}
+     */
+    recordJoinTimeout(): void {
+        this.joinTimeouts++;
+    }
+
+    /**
+     * Record a join that failed
+     * @returns {void}
+     */
+    recordJoinFailure(): void {
+        this.joinFailures++;
+    }
+
+    /**
+     * Record a track exception event
+     * @returns {void}
+     */
+    recordTrackException(): void {
+        this.trackExceptions++;
+    }
+
+    /**
+     * Record a track stuck event
+     * @returns {void}
+     */
+    recordTrackStuck(): void {
+        this.trackStuck++;
+    }
+
+    /**
+     * Get a plain snapshot of the metrics
+     * @param {Lavalink[]} nodes The current nodes
+     * @param {Object[]} players The current players
+     * @returns {MetricsSnapshot}
+     */
+    snapshot(nodes: Lavalink[], players: { node: Lavalink, playing: boolean }[]): MetricsSnapshot {
+        return {
+            timestamp: Date.now(),
+            players: players.length,
+            playingPlayers: players.filter(player => player.playing).length,
+            failovers: this.failovers,
+            joins: this.joins,
+            joinTimeouts: this.joinTimeouts,
+            joinFailures: this.joinFailures,
+            joinLatency: {
+                last: this.joinLatencyLast,
+                average: this.joins ? this.joinLatencyTotal / this.joins : 0,
+                max: this.joinLatencyMax,
+            },
+            trackExceptions: this.trackExceptions,
+            trackStuck: this.trackStuck,
+            nodes: nodes.map(node => {
+                let history = this.history.get(node.host) || [];
+                return {
+                    host: node.host,
+                    region: node.region,
+                    connected: node.connected,
+                    healthy: node.healthy,
+                    latency: node.latency,
+                    reconnects: this.reconnects.get(node.host) || 0,
+                    players: players.filter(player => player.node === node).length,
+                    stats: history[history.length - 1] || null,
+                    history: [...history],
+                };
+            }),
+        };
+    }
+
+    /**
+     * Format a snapshot in the Prometheus text exposition format
+     * @param {MetricsSnapshot} snapshot The snapshot to format
+     * @param {string} [prefix='eris_lavalink'] The prefix of the metric names
+     * @returns {string}
+     */
+    static toPrometheus(snapshot: MetricsSnapshot, prefix?: string): string {
+        prefix = prefix || 'eris_lavalink';
+
+        let lines: string[] = [];
+        let metric = (name: string, type: 'gauge' | 'counter', help: string, values: [number, { [label: string]: string }?][]) => {
+            lines.push(`# HELP ${prefix}_${name} ${help}`);
+            lines.push(`# TYPE ${prefix}_${name} ${type}`);
+            for (let [value, labels] of values) {
+                if (value === undefined || value === null || isNaN(value)) continue;
+                let labelText = labels ? `{${Object.keys(labels).map(key => `${key}="${escapeLabel(labels[key])}"`).join(',')}}` : '';
+                lines.push(`${prefix}_${name}${labelText} ${value}`);
+            }
+        };
+        let perNode = (fn: (node: NodeMetrics) => number): [number, { [label: string]: string }][] =>
+            snapshot.nodes.map(node => [fn(node), { node: node.host, region: node.region }]);
+        let perNodeStats = (fn: (stats: NodeStatsSample) => number) =>
+            perNode(node => node.stats ? fn(node.stats) : undefined);
+
+        metric('players', 'gauge', 'Players of this client', [[snapshot.players]]);
+        metric('playing_players', 'gauge', 'Playing players of this client', [[snapshot.playingPlayers]]);
+        metric('failovers_total', 'counter', 'Players switched to another node', [[snapshot.failovers]]);
+        metric('joins_total', 'counter', 'Successful joins', [[snapshot.joins]]);
+        metric('join_timeouts_total', 'counter', 'Joins that timed out', [[snapshot.joinTimeouts]]);
+        metric('join_failures_total', 'counter', 'Joins that failed', [[snapshot.joinFailures]]);
+        metric('join_latency_average_ms', 'gauge', 'Average time until a joined player is ready', [[snapshot.joinLatency.average]]);
+        metric('join_latency_max_ms', 'gauge', 'Maximum time until a joined player is ready', [[snapshot.joinLatency.max]]);
+        metric('track_exceptions_total', 'counter', 'Track exception events', [[snapshot.trackExceptions]]);
+        metric('track_stuck_total', 'counter', 'Track stuck events', [[snapshot.trackStuck]]);
+
+        metric('node_connected', 'gauge', 'Whether the node is connected', perNode(node => node.connected ? 1 : 0));
+        metric('node_healthy', 'gauge', 'Whether the node passes health checks', perNode(node => node.healthy ? 1 : 0));
+        metric('node_latency_ms', 'gauge', 'Heartbeat latency of the node', perNode(node => node.latency));
+        metric('node_reconnects_total', 'counter', 'Reconnect attempts of the node', perNode(node => node.reconnects));
+        metric('node_client_players', 'gauge', 'Players of this client on the node', perNode(node => node.players));
+        metric('node_players', 'gauge', 'Players on the node reported by Lavalink', perNodeStats(stats => stats.players));
+        metric('node_playing_players', 'gauge', 'Playing players on the node reported by Lavalink', perNodeStats(stats => stats.playingPlayers));
+        metric('node_uptime_ms', 'gauge', 'Uptime of the node', perNodeStats(stats => stats.uptime));
+        metric('node_cpu_cores', 'gauge', 'CPU cores of the node', perNodeStats(stats => stats.cpu && stats.cpu.cores));
+        metric('node_cpu_system_load', 'gauge', 'System CPU load of the node', perNodeStats(stats => stats.cpu && stats.cpu.systemLoad));
+        metric('node_cpu_lavalink_load', 'gauge', 'Lavalink CPU load of the node', perNodeStats(stats => stats.cpu && stats.cpu.lavalinkLoad));
+        metric('node_memory_used_bytes', 'gauge', 'Used memory of the node', perNodeStats(stats => stats.memory && stats.memory.used));
+        metric('node_memory_allocated_bytes', 'gauge', 'Allocated memory of the node', perNodeStats(stats => stats.memory && stats.memory.allocated));
+        metric('node_memory_free_bytes', 'gauge', 'Free memory of the node', perNodeStats(stats => stats.memory && stats.memory.free));
+        metric('node_frames_sent', 'gauge', 'Frames sent per minute by the node', perNodeStats(stats => stats.frameStats && stats.frameStats.sent));
+        metric('node_frames_nulled', 'gauge', 'Frames nulled per minute by the node', perNodeStats(stats => stats.frameStats && stats.frameStats.nulled));
+        metric('node_frames_deficit', 'gauge', 'Frame deficit per minute of the node', perNodeStats(stats => stats.frameStats && stats.frameStats.deficit));
+
+        return lines.join('\n') + '\n';
+    }
+}
@@ -0,0 +1,610 @@
+import WebSocket from 'ws';
+import http from 'http';
+import { EventEmitter } from 'events';
+import { AddressInfo, Socket } from 'net';
+import { LoadTracksResponse, Track } from './Lavalink';
+import { ExceptionSeverity, InboundPayload, NodeStats, OutboundPayload, PlayerState, RestPlayerUpdate, TrackEndReason } from './Protocol';
+import { decodeTrack } from './TrackCodec';
+
+/**
+ * A REST request received by the mock server
+ */
+export interface MockRequest {
+    method: string;
+    path: string;
+    headers: http.IncomingHttpHeaders;
+    body: any;
+}
+
+/**
+ * The events emitted by the mock server
+ */
+export interface MockLavalinkEvents {
+    connection: [http.IncomingHttpHeaders];
+    op: [OutboundPayload];
+    request: [MockRequest];
+}
+
+interface MockLavalink {
+    on<K extends keyof MockLavalinkEvents>(event: K, listener: (...args: MockLavalinkEvents[K]) => void): this;
+    once<K extends keyof MockLavalinkEvents>(event: K, listener: (...args: MockLavalinkEvents[K]) => void): this;
+    off<K extends keyof MockLavalinkEvents>(event: K, listener: (...args: MockLavalinkEvents[K]) => void): this;
+    removeListener<K extends keyof MockLavalinkEvents>(event: K, listener: (...args: MockLavalinkEvents[K]) => void): this;
+    emit<K extends keyof MockLavalinkEvents>(event: K, ...args: MockLavalinkEvents[K]): boolean;
+}
+
+/**
+ * An in-process Lavalink server for tests, speaks the websocket and REST api without playing anything
+ * @extends EventEmitter
+ * @prop {number} port The port the server listens on, available after start
+ * @prop {string} password The password clients must send
+ * @prop {string} path The path prefix of the websocket and REST api
+ * @prop {Object[]} received The ops received from clients, in order
+ * @prop {Object[]} requests The REST requests received, in order
+ * @prop {Object[]} handshakes The headers of every accepted websocket connection
+ * @prop {Map<string, LoadTracksResponse>} tracks The responses of the loadtracks endpoint by identifier
+ * @prop {Set<WebSocket>} connections The open websocket connections
+ * @prop {string} resumeKey The resume key configured by the last client, null if none
+ * @prop {number} version The protocol version, 3 for websocket ops and 4 for the session REST api
+ * @prop {string} sessionId The session ID of the last v4 connection
+ * @prop {Map<string, Object>} players The state of every v4 player by guild ID, updated by the player update requests
+ * @prop {Set<string>} paused The guild IDs of paused v3 players, like Lavalink no player updates are sent for paused players
+ */
+class MockLavalink extends EventEmitter {
+    port: number;
+    password: string;
+    path: string;
+    received: OutboundPayload[];
+    requests: MockRequest[];
+    handshakes: http.IncomingHttpHeaders[];
+    tracks: Map<string, LoadTracksResponse>;
+    connections: Set<WebSocket>;
+    resumeKey: string;
+    resumeTimeout: number;
+    resumeExpiresAt: number;
+    version: number;
+    sessionId: string;
+    sessions: number;
+    players: Map<string, RestPlayerUpdate>;
+    paused: Set<string>;
+    server: http.Server;
+    wss: WebSocket.Server;
+
+    /**
+     * MockLavalink constructor
+     * @param {Object} [options] Server options
+     * @param {number} [options.port=0] The port to listen on, 0 picks a free port
+     * @param {string} [options.password='youshallnotpass'] The password clients must send
+     * @param {string} [options.path] A path prefix, like a node behind a reverse proxy
+     * @param {number} [options.version=3] The protocol version to speak, 3 or 4
+     */
+    constructor(options?: { port?: number, password?: string, path?: string, version?: 3 | 4 }) {
+        super();
+        options = options || {};
+        this.port = options.port || 0;
+        this.password = options.password || 'youshallnotpass';
+        this.path = options.path ? `/${options.path.replace(/^\/+|\/+$/g, '')}` : '';
+        this.received = [];
+        this.requests = [];
+        this.handshakes = [];
+        this.tracks = new Map();
+        this.connections = new Set();
+        this.resumeKey = null;
+        this.resumeTimeout = null;
+        this.resumeExpiresAt = null;
+        this.version = options.version || 3;
+        this.sessionId = null;
+        this.sessions = 0;
+        this.players = new Map();
+        this.paused = new Set();
+
+        this.server = http.createServer(this.onRequest.bind(this));
+        this.server.on('upgrade', this.onUpgrade.bind(this));
+        this.wss = new WebSocket.Server({ noServer: true });
+        this.wss.on('headers', (headers, req) => {
+            if (this.version !== 4 && this.canResume(req.headers['resume-key'] as string)) {
+                headers.push('Session-Resumed: true');
+            }
+        });
+    }
+
+    /**
+     * Start listening
+     * @returns {Promise<number>} The port the server listens on
+     */
+    start(): Promise<number> {
+        return new Promise((res, rej) => {
+            this.server.once('error', rej);
+            this.server.listen(this.port, () => {
+                this.server.removeListener('error', rej);
+                this.port = (this.server.address() as AddressInfo).port;
+                res(this.port);
+            });
+        });
+    }
+
+    /**
+     * Close all connections and stop listening
+     * @returns {Promise<void>}
+     */
+    close(): Promise<void> {
+        for (let ws of this.connections) {
+            ws.terminate();
+        }
+        this.connections.clear();
+
+        return new Promise(res => {
+            this.wss.close(() => this.server.close(() => res()));
+        });
+    }
+
+    /**
+     * Check the headers sent by a client, see Lavalink.connect
+     * @param {Object} headers The request headers
+     * @returns {string} The reason the client is rejected, null if it is accepted
+     * @private
+     */
+    checkHeaders(headers: http.IncomingHttpHeaders): string {
+        if (headers.authorization !== this.password) {
+            return 'invalid authorization';
+        }
+        if (!headers['user-id']) {
+            return 'missing User-Id';
+        }
+        if (!headers['num-shards'] || isNaN(Number(headers['num-shards']))) {
+            return 'missing Num-Shards';
+        }
+        if (!headers['client-name']) {
+            return 'missing Client-Name';
+        }
+        return null;
+    }
+
+    /**
+     * Whether a resume key resumes the previous session
+     * @param {string} key The resume key sent by the client
+     * @private
+     */
+    canResume(key: string): boolean {
+        return !!key && key === this.resumeKey && (this.resumeExpiresAt === null || Date.now() < this.resumeExpiresAt);
+    }
+
+    /**
+     * Called on a websocket upgrade request
+     * @private
+     */
+    onUpgrade(req: http.IncomingMessage, socket: Socket, head: Buffer) {
+        let error = this.checkHeaders(req.headers),
+            path = this.version === 4 ? `${this.path}/v4/websocket` : this.path;
+        if (error || (req.url.split('?')[0].replace(/\/+$/, '') !== path)) {
+            socket.end(`HTTP/1.1 ${error ? '401 Unauthorized' : '404 Not Found'}\r\n\r\n`);
+            return;
+        }
+
+        this.wss.handleUpgrade(req, socket, head, ws => {
+            let resumed = this.version === 4 && this.canResume(req.headers['session-id'] as string);
+            this.connections.add(ws);
+            this.handshakes.push(req.headers);
+            this.resumeExpiresAt = null;
+
+            if (this.version === 4) {
+                if (!resumed) {
+                    this.sessionId = `session${++this.sessions}`;
+                    this.resumeKey = null;
+                    this.players.clear();
+                }
+                ws.send(JSON.stringify({ op: 'ready', resumed, sessionId: this.sessionId }));
+            }
+
+            ws.on('message', (data: string) => {
+                let payload: OutboundPayload;
+                try {
+                    payload = JSON.parse(data);
+                } catch (err) {
+                    return ws.close(4000, 'invalid json');
+                }
+
+                if (payload.op === 'configureResuming') {
+                    this.resumeKey = payload.key;
+                    this.resumeTimeout = payload.timeout;
+                }
+
+                this.received.push(payload);
+                this.trackPause(payload);
+                this.emit('op', payload);
+            });
+
+            ws.on('close', () => {
+                this.connections.delete(ws);
+                if (this.resumeKey) {
+                    this.resumeExpiresAt = Date.now() + (this.resumeTimeout * 1000);
+                }
+            });
+
+            this.emit('connection', req.headers);
+        });
+    }
+
+    /**
+     * Called on a REST request
+     * @private
+     */
+    onRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+        let chunks: Buffer[] = [];
+        req.on('data', (chunk: Buffer) => chunks.push(chunk));
+        req.on('end', () => {
+            let url = new URL(req.url, 'http://localhost'),
+                path = url.pathname.slice(this.path.length),
+                body = chunks.length ? Buffer.concat(chunks).toString() : null;
+
+            let request: MockRequest = { method: req.method, path: url.pathname + url.search, headers: req.headers, body };
+            try {
+                request.body = body && JSON.parse(body);
+            } catch (err) {
+                return this.respond(res, 400, { error: 'invalid json' });
+            }
+
+            this.requests.push(request);
+            this.emit('request', request);
+
+            if (!url.pathname.startsWith(this.path)) {
+                return this.respond(res, 404, { error: 'not found' });
+            }
+            if (req.headers.authorization !== this.password) {
+                return this.respond(res, 401, { error: 'invalid authorization' });
+            }
+
+            if (path === '/version') {
+                res.writeHead(200, { 'Content-Type': 'text/plain' });
+                return res.end(this.version === 4 ? '4.0.0' : '3.7.0');
+            }
+            if (this.version === 4) {
+                return this.onV4Request(req.method, path, url.searchParams, request.body, res);
+            }
+
+            try {
+                switch (`${req.method} ${path}`) {
+                    case 'GET /loadtracks':
+                        return this.respond(res, 200, this.loadTracks(url.searchParams.get('identifier')));
+                    case 'GET /decodetrack':
+                        return this.respond(res, 200, decodeTrack(url.searchParams.get('track')));
+                    case 'POST /decodetracks':
+                        return this.respond(res, 200, (request.body as string[]).map(track => ({ track, info: decodeTrack(track) })));
+                    default:
+                        return this.respond(res, 404, { error: 'not found' });
+                }
+            } catch (err) {
+                return this.respond(res, 500, { error: err.message });
+            }
+        });
+    }
+
+    /**
+     * Called on a v4 REST request
+     * @private
+     */
+    onV4Request(method: string, path: string, params: URLSearchParams, body: any, res: http.ServerResponse) {
+        let session = path.match(/^\/v4\/sessions\/([^/]+)(?:\/players\/([^/]+))?$/);
+        if (session) {
+            let [, sessionId, guildId] = session;
+            if (sessionId !== this.sessionId) {
+                return this.respond(res, 404, { error: 'session not found' });
+            }
+
+            if (!guildId && method === 'PATCH') {
+                // the key only enables resuming, clients resume with the Session-Id header
+                this.resumeKey = body.resuming ? this.sessionId : null;
+                this.resumeTimeout = body.timeout;
+                return this.respond(res, 200, { resuming: body.resuming, timeout: body.timeout });
+            }
+            if (guildId && method === 'PATCH') {
+                let player = Object.assign(this.players.get(guildId) || {}, body);
+                this.players.set(guildId, player);
+                return this.respond(res, 200, Object.assign({ guildId }, player));
+            }
+            if (guildId && method === 'DELETE') {
+                this.players.delete(guildId);
+                res.writeHead(204);
+                return res.end();
+            }
+            return this.respond(res, 404, { error: 'not found' });
+        }
+
+        try {
+            switch (`${method} ${path}`) {
+                case 'GET /v4/loadtracks':
+                    return this.respond(res, 200, this.toV4LoadResult(this.loadTracks(params.get('identifier'))));
+                case 'GET /v4/decodetrack':
+                    return this.respond(res, 200, this.toV4Track(params.get('encodedTrack')));
+                case 'POST /v4/decodetracks':
+                    return this.respond(res, 200, (body as string[]).map(track => this.toV4Track(track)));
+                default:
+                    return this.respond(res, 404, { error: 'not found' });
+            }
+        } catch (err) {
+            return this.respond(res, 500, { error: err.message });
+        }
+    }
+
+    /**
+     * Convert a track to the v4 shape
+     * @param {string} track The base64 track
+     * @private
+     */
+    toV4Track(track: string) {
+        return { encoded: track, info: decodeTrack(track) };
+    }
+
+    /**
+     * Convert a loadtracks response to the v4 shape
+     * @param {LoadTracksResponse} result The response
+     * @private
+     */
+    toV4LoadResult(result: LoadTracksResponse) {
+        let tracks = result.tracks.map(track => this.toV4Track(track.track));
+        switch (result.loadType) {
+            case 'TRACK_LOADED':
+                return { loadType: 'track', data: tracks[0] };
+            case 'PLAYLIST_LOADED':
+                return { loadType: 'playlist', data: { info: result.playlistInfo, tracks } };
+            case 'SEARCH_RESULT':
+                return { loadType: 'search', data: tracks };
+            case 'LOAD_FAILED':
+                return { loadType: 'error', data: { message: result.exception.message, severity: result.exception.severity.toLowerCase() } };
+            default:
+                return { loadType: 'empty', data: {} };
+        }
+    }
+
+    /**
+     * Send a json response
+     * @private
+     */
+    respond(res: http.ServerResponse, status: number, data: any) {
+        let payload = JSON.stringify(data);
+        res.writeHead(status, { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(payload) });
+        res.end(payload);
+    }
+
+    /**
+     * Get the loadtracks response of an identifier
+     * @param {string} identifier The identifier
+     * @private
+     */
+    loadTracks(identifier: string): LoadTracksResponse {
+        if (this.tracks.has(identifier)) {
+            return this.tracks.get(identifier);
+        }
+        return { loadType: 'NO_MATCHES', playlistInfo: {}, tracks: [] };
+    }
+
+    /**
+     * Set the tracks returned for an identifier
+     * @param {string} identifier The identifier
+     * @param {Track[]} tracks The tracks, an empty array responds with NO_MATCHES
+     * @param {string} [loadType] The load type, TRACK_LOADED or SEARCH_RESULT by default
+     * @returns {void}
+     */
+    addTracks(identifier: string, tracks: Track[], loadType?: LoadTracksResponse['loadType']): void {
+        loadType = loadType || (!tracks.length ? 'NO_MATCHES' : tracks.length === 1 ? 'TRACK_LOADED' : 'SEARCH_RESULT');
+        this.tracks.set(identifier, { loadType, playlistInfo: {}, tracks });
+    }
+
+    /**
+     * Send a payload to every connected client
+     * @param {InboundPayload|Object} payload The payload to send, not validated so malformed messages can be tested
+     * @returns {void}
+     */
+    send(payload: InboundPayload | { [key: string]: any }): void {
+        let data = JSON.stringify(payload);
+        for (let ws of this.connections) {
+            ws.send(data);
+        }
+    }
+
+    /**
+     * Send node stats
+     * @param {Object} [stats] Stats to override the defaults with
+     * @returns {void}
+     */
+    sendStats(stats?: Partial<NodeStats>): void {
+        this.send(Object.assign({
+            op: 'stats',
+            players: 0,
+            playingPlayers: 0,
+            uptime: 0,
+            memory: { free: 0, used: 0, allocated: 0, reservable: 0 },
+            cpu: { cores: 1, systemLoad: 0, lavalinkLoad: 0 },
+        }, stats));
+    }
+
+    /**
+     * Send a player update, skipped for paused players like Lavalink does
+     * @param {string} guildId The guild ID
+     * @param {PlayerState} state The player state
+     * @returns {void}
+     */
+    sendPlayerUpdate(guildId: string, state: PlayerState): void {
+        let paused = this.version === 4 ? !!(this.players.get(guildId) || {}).paused : this.paused.has(guildId);
+        if (paused) return;
+
+        this.send({ op: 'playerUpdate', guildId, state });
+    }
+
+    /**
+     * Track the pause state of a v3 player from its ops, play only changes it when the pause flag is set
+     * @param {OutboundPayload} payload The op
+     * @private
+     */
+    trackPause(payload: OutboundPayload) {
+        if ((payload.op === 'pause' || payload.op === 'play') && payload.pause !== undefined) {
+            if (payload.pause) {
+                this.paused.add(payload.guildId);
+            } else {
+                this.paused.delete(payload.guildId);
+            }
+        } else if (payload.op === 'destroy') {
+            this.paused.delete(payload.guildId);
+        }
+    }
+
+    /**
+     * Send a track start event
+     * @param {string} guildId The guild ID
+     * @param {string} track The track that started
+     * @returns {void}
+     */
+    sendTrackStart(guildId: string, track: string): void {
+        let event: { [key: string]: any } = { op: 'event', type: 'TrackStartEvent', guildId, track: this.version === 4 ? this.toV4Track(track) : track };
+        this.send(event);
+    }
+
+    /**
+     * Send a track end event
+     * @param {string} guildId The guild ID
+     * @param {string} track The track that ended
+     * @param {string} [reason='FINISHED'] The end reason
+     * @returns {void}
+     */
+    sendTrackEnd(guildId: string, track: string, reason?: TrackEndReason): void {
+        reason = reason || 'FINISHED';
+        if (this.version === 4) {
+            let v4Reason = reason === 'LOAD_FAILED' ? 'loadFailed' : reason.toLowerCase();
+            let event: { [key: string]: any } = { op: 'event', type: 'TrackEndEvent', guildId, track: this.toV4Track(track), reason: v4Reason };
+            return this.send(event);
+        }
+        this.send({ op: 'event', type: 'TrackEndEvent', guildId, track, reason });
+    }
+
+    /**
+     * Send a track exception event
+     * @param {string} guildId The guild ID
+     * @param {string} track The track that failed
+     * @param {string} message The exception message
+     * @param {string} [severity='COMMON'] The exception severity
+     * @returns {void}
+     */
+    sendTrackException(guildId: string, track: string, message: string, severity?: ExceptionSeverity): void {
+        severity = severity || 'COMMON';
+        if (this.version === 4) {
+            let event: { [key: string]: any } = { op: 'event', type: 'TrackExceptionEvent', guildId, track: this.toV4Track(track), exception: { message, severity: severity.toLowerCase(), cause: message } };
+            return this.send(event);
+        }
+        this.send({ op: 'event', type: 'TrackExceptionEvent', guildId, track, error: message, exception: { message, severity, cause: message } });
+    }
+
+    /**
+     * Send a track stuck event
+     * @param {string} guildId The guild ID
+     * @param {string} track The stuck track
+     * @param {number} [thresholdMs=10000] The stuck threshold
+     * @returns {void}
+     */
+    sendTrackStuck(guildId: string, track: string, thresholdMs?: number): void {
+        let event: { [key: string]: any } = { op: 'event', type: 'TrackStuckEvent', guildId, track: this.version === 4 ? this.toV4Track(track) : track, thresholdMs: thresholdMs || 10000 };
+        this.send(event);
+    }
+
+    /**
+     * Send a Discord voice websocket closed event
+     * @param {string} guildId The guild ID
+     * @param {number} code The close code
+     * @param {string} [reason=''] The close reason
+     * @param {boolean} [byRemote=true] Whether Discord closed the connection
+     * @returns {void}
+     */
+    sendWebSocketClosed(guildId: string, code: number, reason?: string, byRemote?: boolean): void {
+        this.send({ op: 'event', type: 'WebSocketClosedEvent', guildId, code, reason: reason || '', byRemote: byRemote !== false });
+    }
+
+    /**
+     * Close every connection, like a node restart or network failure
+     * @param {number} [code=1006] The close code, 1006 terminates without a close frame
+     * @param {string} [reason] The close reason
+     * @returns {void}
+     */
+    disconnect(code?: number, reason?: string): void {
+        for (let ws of this.connections) {
+            if (!code || code === 1006) {
+                ws.terminate();
+            } else {
+                ws.close(code, reason);
+            }
+        }
+    }
+
+    /**
+     * Wait for an op from a client
+     * @param {string} op The op to wait for
+     * @param {Function} [filter] Only resolve for payloads that pass the filter
+     * @param {number} [timeout=2000] The time in ms to wait
+     * @returns {Promise<Object>} The payload
+     */
+    waitForOp<K extends OutboundPayload['op']>(op: K, filter?: (payload: Extract<OutboundPayload, { op: K }>) => boolean, timeout?: number): Promise<Extract<OutboundPayload, { op: K }>> {
+        return new Promise((res, rej) => {
+            let listener = (payload: OutboundPayload) => {
+                if (payload.op !== op) return;
+                let match = payload as Extract<OutboundPayload, { op: K }>;
+                if (filter && !filter(match)) return;
+                clearTimeout(timer);
+                this.removeListener('op', listener);
+                res(match);
+            };
+
+            let timer = setTimeout(() => {
+                this.removeListener('op', listener);
+                rej(new Error(`Timed out waiting for op ${op}`));
+            }, timeout || 2000);
+
+            this.on('op', listener);
+        });
+    }
+
+    /**
+     * Wait for a REST request from a client
+     * @param {string} method The http method
+     * @param {string|RegExp} path The path to wait for, including the query string
+     * @param {number} [timeout=2000] The time in ms to wait
+     * @returns {Promise<MockRequest>} The request
+     */
+    waitForRequest(method: string, path: string | RegExp, timeout?: number): Promise<MockRequest> {
+        return new Promise((res, rej) => {
+            let listener = (request: MockRequest) => {
+                if (request.method !== method) return;
+                if (typeof path === 'string' ? request.path !== path : !path.test(request.path)) return;
+                clearTimeout(timer);
+                this.removeListener('request', listener);
+                res(request);
+            };
+
+            let timer = setTimeout(() => {
+                this.removeListener('request', listener);
+                rej(new Error(`Timed out waiting for ${method} ${path}`));
+            }, timeout || 2000);
+
+            this.on('request', listener);
+        });
+    }
+
+    /**
+     * Wait for a client to connect
+     * @param {number} [timeout=2000] The time in ms to wait
+     * @returns {Promise<Object>} The headers of the connection
+     */
+    waitForConnection(timeout?: number): Promise<http.IncomingHttpHeaders> {
+        return new Promise((res, rej) => {
+            let timer = setTimeout(() => {
+                this.removeListener('connection', listener);
+                rej(new Error('Timed out waiting for a connection'));
+            }, timeout || 2000);
+
+            let listener = (headers: http.IncomingHttpHeaders) => {
+                clearTimeout(timer);
+                res(headers);
+            };
+            this.once('connection', listener);
+        });
+    }
+}
+
+export default MockLavalink;
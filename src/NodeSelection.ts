@@ -0,0 +1,101 @@
+import Lavalink from './Lavalink';
+
+/**
+ * Information about the player a node is selected for
+ */
+export interface NodeSelectionContext {
+    region?: string;
+    guildId?: string;
+    tags?: string[];
+}
+
+/**
+ * Picks a node out of the available nodes, the nodes are already filtered by region, tags and priority
+ */
+export type NodeSelector = (nodes: Lavalink[], context: NodeSelectionContext) => Lavalink | Promise<Lavalink>;
+
+/**
+ * The names of the built-in node selection strategies
+ */
+export type NodeSelectionStrategy = 'load' | 'players' | 'playingPlayers' | 'penalty' | 'roundRobin';
+
+/**
+ * Pick the node with the lowest score, the score is divided by the node weight
+ * @param {Lavalink[]} nodes The nodes to pick from
+ * @param {Function} score Scores a node, lower is better
+ * @private
+ */
+function lowestScore(nodes: Lavalink[], score: (node: Lavalink) => number): Lavalink {
+    let best: Lavalink = null,
+        bestScore = Infinity;
+
+    for (let node of nodes) {
+        let nodeScore = score(node) / (node.weight || 1);
+        if (!best || nodeScore < bestScore) {
+            best = node;
+            bestScore = nodeScore;
+        }
+    }
+
+    return best;
+}
+
+/**
+ * Get the cpu load of a node in percent
+ * @param {Lavalink} node The node
+ * @private
+ */
+function cpuLoad(node: Lavalink): number {
+    return node.stats.cpu ? (node.stats.cpu.systemLoad / node.stats.cpu.cores) * 100 : 0;
+}
+
+/**
+ * Get the penalty score of a node, based on the penalties used by the Lavalink load balancer
+ * @param {Lavalink} node The node
+ * @returns {number}
+ */
+export function nodePenalty(node: Lavalink): number {
+    let stats = node.stats,
+        playerPenalty = stats.playingPlayers || 0,
+        cpuPenalty = stats.cpu ? (Math.pow(1.05, 100 * stats.cpu.systemLoad) * 10) - 10 : 0,
+        deficitPenalty = 0,
+        nulledPenalty = 0;
+
+    if (stats.frameStats) {
+        deficitPenalty = (Math.pow(1.03, 500 * (stats.frameStats.deficit / 3000)) * 600) - 600;
+        nulledPenalty = ((Math.pow(1.03, 500 * (stats.frameStats.nulled / 3000)) * 300) - 300) * 2;
+    }
+
+    return playerPenalty + cpuPenalty + deficitPenalty + nulledPenalty;
+}
+
+/**
+ * Create a node selector
+ * @param {NodeSelectionStrategy|NodeSelector} [strategy='load'] A built-in strategy name or a custom selector
+ * @returns {NodeSelector}
+ */
+export function createNodeSelector(strategy?: NodeSelectionStrategy | NodeSelector): NodeSelector {
+    if (typeof strategy === 'function') {
+        return strategy;
+    }
+
+    switch (strategy || 'load') {
+        case 'load':
+            return nodes => lowestScore(nodes, cpuLoad);
+        case 'players':
+            return nodes => lowestScore(nodes, node => node.stats.players || 0);
+        case 'playingPlayers':
+            return nodes => lowestScore(nodes, node => node.stats.playingPlayers || 0);
+        case 'penalty':
+            return nodes => lowestScore(nodes, nodePenalty);
+        case 'roundRobin': {
+            let index = 0;
+            return nodes => {
+                if (!nodes.length) return null;
+                return nodes[index++ % nodes.length];
+            };
+        }
+        default:
+            throw new Error(`Unknown node selection strategy ${strategy}`);
+    }
+}
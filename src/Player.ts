@@ -1,8 +1,91 @@
-import { Constants, Shard } from "eris";
-import { EventEmitter } from "events";
-import PlayerManager from "./PlayerManager";
-import Lavalink from "./Lavalink";
+import { Constants, Shard } from 'eris';
+import { EventEmitter } from 'events';
+import PlayerManager from './PlayerManager';
+import Lavalink, { Track } from './Lavalink';
+import Queue from './Queue';
+import { PlayerSnapshot } from './Storage';
+import { decodeTrack, DecodedTrackInfo } from './TrackCodec';
+import { AutoplayResolver, defaultAutoplayResolver } from './Autoplay';
+import { composeFilters, FilterPreset, FilterPresets, validateFilters } from './Filters';
+import { createRecoveryPolicy, RecoveryEvent, RecoveryOptions, RecoveryPolicy } from './Recovery';
+import { CommandTimeoutError, PlaybackError } from './Errors';
+import { EqualizerBand, EventPayload, ExceptionSeverity, Filters, OutboundPayload, PlayerState, PlayerUpdatePayload, PlayOptions, TrackEndEvent, TrackExceptionEvent, TrackStartEvent, TrackStuckEvent, VoiceUpdatePayload, WebSocketClosedEvent } from './Protocol';
 
+const FADE_INTERVAL = 100;
+
+/**
+ * How far in ms the position of a player update may be from the expected position to acknowledge a seek
+ */
+const SEEK_TOLERANCE = 1000;
+
+/**
+ * A message from Lavalink about a player
+ */
+export type PlayerMessage = PlayerUpdatePayload | EventPayload;
+
+/**
+ * A command waiting to be acknowledged by Lavalink
+ * @private
+ */
+interface PendingCommand {
+    op: string;
+    match: (message: PlayerMessage) => boolean | Error;
+    resolve: (message: PlayerMessage) => void;
+    reject: (err: Error) => void;
+    timer: NodeJS.Timeout;
+}
+
+/**
+ * Emitted before a player leaves on its own, call cancel to stay connected
+ */
+export interface AutoLeaveEvent {
+    reason: 'idle' | 'alone';
+    cancelled: boolean;
+    cancel(): void;
+}
+
+/**
+ * Emitted when Lavalink reports that the Discord voice websocket closed
+ */
+export interface VoiceClosedEvent {
+    code: number;
+    reason: string;
+    byRemote: boolean;
+}
+
+/**
+ * The events emitted by a player
+ */
+export interface PlayerEvents {
+    connect: [];
+    ready: [];
+    disconnect: [any?];
+    reconnect: [];
+    move: [Lavalink];
+    resumed: [];
+    end: [TrackEndEvent | TrackStuckEvent];
+    error: [TrackExceptionEvent];
+    warn: [string];
+    trackStart: [string];
+    start: [string];
+    voiceClosed: [VoiceClosedEvent];
+    recovery: [RecoveryEvent];
+    queueEnd: [];
+    trackProgress: [number];
+    autoplay: [Track];
+    autoLeave: [AutoLeaveEvent];
+    alonePause: [];
+    aloneResume: [];
+    stateChange: [];
+}
+
+interface Player {
+    on<K extends keyof PlayerEvents>(event: K, listener: (...args: PlayerEvents[K]) => void): this;
+    once<K extends keyof PlayerEvents>(event: K, listener: (...args: PlayerEvents[K]) => void): this;
+    off<K extends keyof PlayerEvents>(event: K, listener: (...args: PlayerEvents[K]) => void): this;
+    removeListener<K extends keyof PlayerEvents>(event: K, listener: (...args: PlayerEvents[K]) => void): this;
+    emit<K extends keyof PlayerEvents>(event: K, ...args: PlayerEvents[K]): boolean;
+}
 
 /**
  * Represents a player/voice connection to Lavalink
@@ -16,8 +99,23 @@ import Lavalink from "./Lavalink";
  * @prop {string} channelId Channel ID
  * @prop {boolean} ready If the connection is ready
  * @prop {boolean} playing If the player is playing
- * @prop {object} state The lavalink player state
+ * @prop {object} state The lavalink player state, its time is the local time the state was received
  * @prop {string} track The lavalink track to play
+ * @prop {Queue} queue The track queue, null unless enabled
+ * @prop {Filters} filters The currently applied audio filters
+ * @prop {number} volume The volume of the player, the target volume during a fade
+ * @prop {object} voiceUpdate The last voice update sent to Lavalink
+ * @prop {number} position The interpolated track position in ms
+ * @prop {number} progressInterval The interval in ms of trackProgress events, 0 if disabled
+ * @prop {object} currentTrackInfo The info decoded from the current track, null if there is none
+ * @prop {boolean} autoplay Whether to play a related track when a track finishes and nothing is queued
+ * @prop {Function} autoplayResolver Finds the related track to play
+ * @prop {string[]} autoplayHistory Identifiers of recently played tracks, excluded from autoplay
+ * @prop {number} fadeIn The time in ms new tracks fade in, 0 if disabled
+ * @prop {number} fadeOut The time in ms the player fades out before stopping or pausing, 0 if disabled
+ * @prop {number} crossfade The time in ms queued tracks fade out before their end and the next track fades in, 0 if disabled
+ * @prop {RecoveryPolicy} recovery How the player recovers from stuck and failed tracks, null if disabled
+ * @prop {number} commandTimeout The time in ms to wait for Lavalink to acknowledge a command
  */
 class Player extends EventEmitter {
     id: string;
@@ -30,14 +128,37 @@ class Player extends EventEmitter {
     playing: boolean;
     paused: boolean;
     shard: Shard;
-    state: { position?: number };
+    state: PlayerState;
     track: string;
-    sendQueue: any[];
+    sendQueue: OutboundPayload[];
     timestamp: number;
     lastTrack: string;
-    playOptions: object;
+    playOptions: PlayOptions;
     options: Object;
-    
+    queue: Queue;
+    filters: Filters;
+    volume: number;
+    voiceUpdate: VoiceUpdatePayload;
+    progressInterval: number;
+    progressTimer: NodeJS.Timeout;
+    autoplay: boolean;
+    autoplayResolver: AutoplayResolver;
+    autoplayHistory: string[];
+    fadeIn: number;
+    fadeOut: number;
+    crossfade: number;
+    recovery: RecoveryPolicy;
+    commandTimeout: number;
+    private pendingCommands: PendingCommand[];
+    private outputVolume: number;
+    private fade: { timer: NodeJS.Timeout, resolve: (completed: boolean) => void };
+    private crossfadeTimer: NodeJS.Timeout;
+    private crossfading: boolean;
+    private decodedTrack: { track: string, info: DecodedTrackInfo };
+    private failure: TrackExceptionEvent;
+    private recoveryTrack: string;
+    private recoveryAttempts: number;
+
     /**
      * Player constructor
      * @param {string} id Guild ID
@@ -49,8 +170,17 @@ class Player extends EventEmitter {
      * @param {Lavalink} data.node The Lavalink node associated with this player
      * @param {Shard} data.shard The eris shard associated with this player
      * @param {Object} [data.options] Additional passed from the user to the player
+     * @param {boolean} [data.queue=false] Whether to attach a track queue to the player
+     * @param {number} [data.progressInterval=0] The interval in ms of trackProgress events, 0 disables them
+     * @param {boolean} [data.autoplay=false] Whether to play a related track when a track finishes and nothing is queued
+     * @param {Function} [data.autoplayResolver] Finds the related track to play, searches through the node by default
+     * @param {number} [data.fadeIn=0] The time in ms new tracks fade in
+     * @param {number} [data.fadeOut=0] The time in ms the player fades out before stopping or pausing
+     * @param {number} [data.crossfade=0] The time in ms queued tracks fade out before their end and the next track fades in
+     * @param {Object} [data.recovery] The recovery policy options, see createRecoveryPolicy, recovery is disabled if omitted
+     * @param {number} [data.commandTimeout=10000] The time in ms to wait for Lavalink to acknowledge a command
      */
-    constructor(id: string, options: {channelId: string, guildId: string, hostname: string, manager: PlayerManager, node: Lavalink, shard: Shard, options?: Object}) {
+    constructor(id: string, options: {channelId: string, guildId: string, hostname: string, manager: PlayerManager, node: Lavalink, shard: Shard, options?: Object, queue?: boolean, progressInterval?: number, autoplay?: boolean, autoplayResolver?: AutoplayResolver, fadeIn?: number, fadeOut?: number, crossfade?: number, recovery?: RecoveryOptions, commandTimeout?: number}) {
         super();
         this.id = id;
         this.node = options.node;
@@ -67,6 +197,29 @@ class Player extends EventEmitter {
         this.track = null;
         this.sendQueue = [];
         this.timestamp = Date.now();
+        this.queue = options.queue ? new Queue() : null;
+        this.filters = {};
+        this.volume = 100;
+        this.voiceUpdate = null;
+        this.progressInterval = options.progressInterval || 0;
+        this.progressTimer = null;
+        this.decodedTrack = null;
+        this.autoplay = options.autoplay || false;
+        this.autoplayResolver = options.autoplayResolver || defaultAutoplayResolver;
+        this.autoplayHistory = [];
+        this.fadeIn = options.fadeIn || 0;
+        this.fadeOut = options.fadeOut || 0;
+        this.crossfade = options.crossfade || 0;
+        this.recovery = options.recovery ? createRecoveryPolicy(options.recovery) : null;
+        this.failure = null;
+        this.recoveryTrack = null;
+        this.recoveryAttempts = 0;
+        this.commandTimeout = options.commandTimeout || 10000;
+        this.pendingCommands = [];
+        this.outputVolume = 100;
+        this.fade = null;
+        this.crossfadeTimer = null;
+        this.crossfading = false;
     }
 
     /**
@@ -75,17 +228,17 @@ class Player extends EventEmitter {
      */
     checkEventQueue() {
         if (this.sendQueue.length > 0) {
-            let event = this.sendQueue.splice(0,1);
+            let event = this.sendQueue.splice(0, 1);
             this.sendEvent(event[0]);
         }
     }
 
     /**
      * Queue an event to be sent to Lavalink
-     * @param {*} data The payload to queue
+     * @param {OutboundPayload} data The payload to queue
      * @private
      */
-    queueEvent(data: any) {
+    queueEvent(data: OutboundPayload) {
         if (this.sendQueue.length > 0) {
             this.sendQueue.push(data);
         } else {
@@ -95,10 +248,10 @@ class Player extends EventEmitter {
 
     /**
      * Send a payload to Lavalink
-     * @param {*} data The payload to send
+     * @param {OutboundPayload} data The payload to send
      * @private
      */
-    async sendEvent(data: any) {
+    async sendEvent(data: OutboundPayload) {
         this.node.send(data);
         process.nextTick(() => this.checkEventQueue());
     }
@@ -111,14 +264,15 @@ class Player extends EventEmitter {
      * @param {object} data.event The event data from the voice server update
      * @returns {void}
      */
-    connect(data: {guildId: string, sessionId: string, event: Object}): void {
+    connect(data: {guildId: string, sessionId: string, event: { endpoint: string, guild_id: string, token: string }}): void {
         this.emit('connect');
-        this.queueEvent({
+        this.voiceUpdate = {
             op: 'voiceUpdate',
             guildId: data.guildId,
             sessionId: data.sessionId,
             event: data.event,
-        });
+        };
+        this.queueEvent(this.voiceUpdate);
 
         process.nextTick(() => this.emit('ready'));
     }
@@ -135,90 +289,303 @@ class Player extends EventEmitter {
 
     _disconnect() {
         this.playing = false;
+        this.cancelCommands(new PlaybackError(this.guildId, this.track, 'The player was disconnected'));
 
         if (this.paused) {
-            this.resume();
+            this.setPause(false);
         }
 
-        this.queueEvent({ op: 'destroy', guildId: this.guildId });
+        // a v4 player update recreates a destroyed player, so destroy goes last
+        this.stop({ fade: 0 });
 
-        this.stop();
+        this.queueEvent({ op: 'destroy', guildId: this.guildId });
     }
 
     /**
-     *
-     * @param {{band: number, gain: number}} options The bands range from 0 to 15 and the gain ranges from -0.25 to 1, 0 is the default gain.
+     * Set equalizer bands, kept for backwards compatibility, see setEqualizer
+     * @param {EqualizerBand|EqualizerBand[]} options The bands range from 0 to 14 and the gain ranges from -0.25 to 1, 0 is the default gain.
      * @memberof Player
      */
-    setEQ(options : {band: number, gain: number}) {
-        this.node.send({
-            op: 'equalizer',
-            guildId: this.guildId,
-            bands: options,
-        });
+    setEQ(options: EqualizerBand | EqualizerBand[]) {
+        this.setEqualizer(Array.isArray(options) ? options : [options]);
+    }
+
+    /**
+     * Set equalizer bands, merged with the bands already applied
+     * @param {EqualizerBand[]|number[]} bands The bands to set, or up to 15 gains indexed by band
+     * @returns {void}
+     */
+    setEqualizer(bands: EqualizerBand[] | number[]): void {
+        let equalizer = (bands as (EqualizerBand | number)[]).map((band, index) => typeof band === 'number' ? { band: index, gain: band } : band);
+        this.updateFilters({ equalizer });
+    }
+
+    /**
+     * Set the timescale filter
+     * @param {Object} timescale The speed, pitch and rate, 1 is the default for each
+     * @returns {void}
+     */
+    setTimescale(timescale: Filters['timescale']): void {
+        this.updateFilters({ timescale });
+    }
+
+    /**
+     * Set the karaoke filter
+     * @param {Object} karaoke The level, monoLevel, filterBand and filterWidth
+     * @returns {void}
+     */
+    setKaraoke(karaoke: Filters['karaoke']): void {
+        this.updateFilters({ karaoke });
+    }
+
+    /**
+     * Set the tremolo filter
+     * @param {Object} tremolo The frequency and depth
+     * @returns {void}
+     */
+    setTremolo(tremolo: Filters['tremolo']): void {
+        this.updateFilters({ tremolo });
+    }
+
+    /**
+     * Set the vibrato filter
+     * @param {Object} vibrato The frequency and depth
+     * @returns {void}
+     */
+    setVibrato(vibrato: Filters['vibrato']): void {
+        this.updateFilters({ vibrato });
+    }
+
+    /**
+     * Set the rotation filter
+     * @param {Object} rotation The rotationHz
+     * @returns {void}
+     */
+    setRotation(rotation: Filters['rotation']): void {
+        this.updateFilters({ rotation });
+    }
+
+    /**
+     * Set the distortion filter
+     * @param {Object} distortion The sin, cos and tan offsets and scales
+     * @returns {void}
+     */
+    setDistortion(distortion: Filters['distortion']): void {
+        this.updateFilters({ distortion });
+    }
+
+    /**
+     * Set the channel mix filter
+     * @param {Object} channelMix The leftToLeft, leftToRight, rightToLeft and rightToRight factors
+     * @returns {void}
+     */
+    setChannelMix(channelMix: Filters['channelMix']): void {
+        this.updateFilters({ channelMix });
+    }
+
+    /**
+     * Set the low pass filter
+     * @param {Object} lowPass The smoothing
+     * @returns {void}
+     */
+    setLowPass(lowPass: Filters['lowPass']): void {
+        this.updateFilters({ lowPass });
+    }
+
+    /**
+     * Set the volume filter
+     * @param {number} volume The volume from 0 to 5, 1 is the default
+     * @returns {void}
+     */
+    setFilterVolume(volume: number): void {
+        this.updateFilters({ volume });
+    }
+
+    /**
+     * Apply a built-in filter preset on top of the current filters
+     * @param {FilterPreset} preset One of bassboost, nightcore, vaporwave or 8D
+     * @returns {void}
+     */
+    applyPreset(preset: FilterPreset): void {
+        if (!FilterPresets[preset]) {
+            throw new Error(`Unknown filter preset ${preset}`);
+        }
+        this.updateFilters(FilterPresets[preset]);
+    }
+
+    /**
+     * Compose filters with the currently applied ones, a null value removes that filter
+     * @param {Filters} filters The filters to apply
+     * @returns {void}
+     */
+    updateFilters(filters: Filters): void {
+        this.setFilters(composeFilters(this.filters, filters));
+    }
+
+    /**
+     * Replace all applied filters
+     * @param {Filters} filters The filters to apply
+     * @returns {void}
+     */
+    setFilters(filters: Filters): void {
+        let applied: Filters = Object.assign({}, filters);
+        for (let key of Object.keys(applied) as (keyof Filters)[]) {
+            if (applied[key] === null || applied[key] === undefined) {
+                delete applied[key];
+            }
+        }
+
+        validateFilters(applied);
+        this.state = { time: Date.now(), position: this.position };
+        this.filters = applied;
+        this.sendFilters();
+        this.changed();
     }
 
+    /**
+     * Remove all filters
+     * @returns {void}
+     */
+    clearFilters(): void {
+        this.setFilters({});
+    }
+
+    /**
+     * Get a copy of the currently applied filters
+     * @returns {Filters}
+     */
+    getFilters(): Filters {
+        return JSON.parse(JSON.stringify(this.filters));
+    }
+
+    /**
+     * Send the applied filters to Lavalink
+     * @private
+     */
+    sendFilters() {
+        this.queueEvent(Object.assign({
+            op: 'filters' as 'filters',
+            guildId: this.guildId,
+        }, this.filters));
+    }
 
     /**
      * destroy the player
      */
     destroy() {
-        this.node.send({
-            op: 'equalizer',
-            guildId: this.guildId
+        this.queueEvent({
+            op: 'destroy',
+            guildId: this.guildId,
         });
     }
 
     /**
-     * Play a Lavalink track
+     * Play a Lavalink track, fades in if fadeIn is set or when crossfading
      * @param {string} track The track to play
-     * @param {Object} [options] Optional options to send
-     * @returns {void}
+     * @param {PlayOptions} [options] Optional options to send
+     * @returns {Promise<TrackStartEvent>} Resolves when Lavalink starts the track, rejects with a PlaybackError if it fails or another track is played first and with a CommandTimeoutError after commandTimeout
      */
-    play(track: string, options?: object): void {
+    play(track: string, options?: PlayOptions): Promise<TrackStartEvent> {
         this.lastTrack = this.track;
         this.track = track;
         this.playOptions = options;
 
+        this.state = { time: Date.now(), position: (options && options.startTime) || 0 };
+
+        let started = this.expect('play', message => {
+            if (message.op !== 'event' || message.type === 'WebSocketClosedEvent' || message.track !== track) {
+                return this.track !== track ? new PlaybackError(this.guildId, track, 'The track was replaced or stopped before it started') : false;
+            }
+
+            switch (message.type) {
+                case 'TrackStartEvent':
+                    return true;
+                case 'TrackExceptionEvent':
+                    return new PlaybackError(this.guildId, track, message.exception ? message.exception.message : message.error, message);
+                case 'TrackEndEvent':
+                    return message.reason === 'LOAD_FAILED' ? new PlaybackError(this.guildId, track, 'The track failed to load', message) : false;
+            }
+            return false;
+        }) as Promise<TrackStartEvent>;
+
         if (this.node.draining) {
-            this.state.position = 0;
-            return this.manager.switchNode(this);
+            this.manager.switchNode(this);
+            return started;
+        }
+
+        if (options && options.volume !== undefined) {
+            this.volume = options.volume;
         }
 
-        let payload = Object.assign({
-            op: 'play',
+        let fade = this.crossfading ? this.crossfade : this.fadeIn;
+        this.crossfading = false;
+        this.cancelFade();
+
+        let payload: OutboundPayload = Object.assign({
+            op: 'play' as 'play',
             guildId: this.guildId,
             track: track,
         }, options);
 
+        if (fade > 0 && !this.paused && !(options && options.pause)) {
+            payload.volume = 0;
+        } else if (this.outputVolume !== this.volume) {
+            payload.volume = this.volume;
+        }
+
         this.queueEvent(payload);
+        if (payload.volume !== undefined) {
+            this.outputVolume = payload.volume;
+        }
         this.playing = !this.paused;
         this.timestamp = Date.now();
+        this.changed();
+
+        if (this.outputVolume !== this.volume) {
+            this.fadeOutput(this.volume, fade);
+        }
+
+        return started;
     }
 
     /**
-     * Stop playing
-     * @returns {void}
+     * Stop playing, fades out first if fadeOut is set
+     * @param {Object} [options] Stop options
+     * @param {number} [options.fade] The time in ms to fade out, defaults to fadeOut
+     * @returns {Promise<void>} Resolves when stopped, the player keeps playing if the fade is interrupted
      */
-    stop(): void {
-        let payload = {
+    async stop(options?: { fade?: number }): Promise<void> {
+        let fade = options && options.fade !== undefined ? options.fade : this.fadeOut;
+        if (fade > 0 && this.track && this.playing) {
+            let track = this.track;
+            if (!await this.fadeOutput(0, fade) || this.track !== track) {
+                return;
+            }
+        }
+
+        let payload: OutboundPayload = {
             op: 'stop',
             guildId: this.guildId,
         };
 
+        this.cancelFade();
+        this.crossfading = false;
         this.queueEvent(payload);
+        this.restoreOutput();
         this.playing = false;
         this.lastTrack = this.track;
         this.track = null;
+        this.changed();
     }
 
     /**
-     * Update player state
-     * @param {Object} state The state object received from Lavalink
+     * Update player state, the time of the state is replaced with the local receipt time so clock skew between the bot and the node does not affect the position
+     * @param {PlayerState} state The state object received from Lavalink
      * @private
      */
-    stateUpdate(state: object) {
-        this.state = state;
+    stateUpdate(state: PlayerState) {
+        this.state = Object.assign({}, state, { time: Date.now() });
+        this.changed();
     }
 
     /**
@@ -227,6 +594,7 @@ class Player extends EventEmitter {
      * @returns {void}
      */
     setPause(pause: boolean): void {
+        this.state = { time: Date.now(), position: this.position };
         this.node.send({
             op: 'pause',
             guildId: this.guildId,
@@ -235,85 +603,580 @@ class Player extends EventEmitter {
 
         this.paused = pause;
         this.playing = !pause;
+        this.changed();
     }
 
     /**
-     * Used to pause the player
+     * Used to pause the player, fades out first if fadeOut is set
+     * @param {Object} [options] Pause options
+     * @param {number} [options.fade] The time in ms to fade out, defaults to fadeOut
+     * @returns {Promise<void>} Resolves when paused, the player keeps playing if the fade is interrupted
      */
-    pause() {
+    async pause(options?: { fade?: number }): Promise<void> {
+        if (!this.playing) return;
+
+        let fade = options && options.fade !== undefined ? options.fade : this.fadeOut;
+        if (fade > 0 && !await this.fadeOutput(0, fade)) {
+            return;
+        }
+
         if (this.playing) {
             this.setPause(true);
         }
     }
 
     /**
-     * Used to resume the player
+     * Used to resume the player, fades in if fadeIn is set
+     * @param {Object} [options] Resume options
+     * @param {number} [options.fade] The time in ms to fade in, defaults to fadeIn
+     * @returns {Promise<void>} Resolves when the fade in is done
      */
-    resume() {
-        if (!this.playing && this.paused) {
-            this.setPause(false)
+    async resume(options?: { fade?: number }): Promise<void> {
+        if (this.playing || !this.paused) return;
+
+        let fade = options && options.fade !== undefined ? options.fade : this.fadeIn;
+        this.cancelFade();
+        if (fade > 0) {
+            this.sendVolume(0);
+        } else {
+            this.restoreOutput();
+        }
+
+        this.setPause(false);
+
+        if (fade > 0) {
+            await this.fadeOutput(this.volume, fade);
         }
     }
 
     /**
      * Used for seeking to a track position
      * @param {number} position The position to seek to
-     * @returns {void}
+     * @returns {Promise<PlayerUpdatePayload>} Resolves with the first player update near the new position, rejects with a PlaybackError if another seek is sent first and with a CommandTimeoutError after commandTimeout.
+     * Lavalink sends no player updates for paused players, so a seek while paused resolves with the local state once it is sent
      */
-    seek(position: number): void {
+    seek(position: number): Promise<PlayerUpdatePayload> {
+        let sentAt = Date.now(),
+            speed = this.playbackSpeed();
+
+        this.cancelCommands(new PlaybackError(this.guildId, this.track, 'The seek was replaced by another seek'), 'seek');
+        let seeked = this.paused ? null : this.expect('seek', message => {
+            if (message.op !== 'playerUpdate' || message.state.position === undefined) {
+                return false;
+            }
+
+            let expected = position + (this.playing && !this.paused ? (Date.now() - sentAt) * speed : 0);
+            return Math.abs(message.state.position - expected) <= SEEK_TOLERANCE;
+        }) as Promise<PlayerUpdatePayload>;
+
         this.node.send({
             op: 'seek',
             guildId: this.guildId,
             position: position,
         });
+
+        this.state = { time: sentAt, position };
+        this.changed();
+        return seeked || Promise.resolve({ op: 'playerUpdate', guildId: this.guildId, state: { time: sentAt, position } });
+    }
+
+    /**
+     * Wait for Lavalink to acknowledge a command, the player calls match with every player update and event it receives
+     * @param {string} op The op of the command, used in errors and to cancel commands
+     * @param {Function} match Returns true when the message acknowledges the command, an Error to reject or false to keep waiting
+     * @param {number} [timeout] The time in ms to wait, defaults to commandTimeout
+     * @returns {Promise<PlayerMessage>} The message that acknowledged the command
+     */
+    expect(op: string, match: (message: PlayerMessage) => boolean | Error, timeout?: number): Promise<PlayerMessage> {
+        timeout = timeout || this.commandTimeout;
+
+        let command: PendingCommand = { op, match, resolve: null, reject: null, timer: null };
+        let promise = new Promise<PlayerMessage>((resolve, reject) => {
+            command.resolve = resolve;
+            command.reject = reject;
+        });
+
+        command.timer = setTimeout(() => this.settleCommand(command, new CommandTimeoutError(this.guildId, op, timeout)), timeout);
+        // a command nobody waits for shouldn't keep the process running
+        command.timer.unref();
+        this.pendingCommands.push(command);
+
+        // most commands are sent without waiting for them, don't report their failures as unhandled
+        promise.catch(() => undefined);
+        return promise;
+    }
+
+    /**
+     * Called with every player update and event of the player, settles the commands it acknowledges
+     * @param {PlayerMessage} message The message from Lavalink
+     * @private
+     */
+    acknowledge(message: PlayerMessage) {
+        for (let command of [...this.pendingCommands]) {
+            let result = command.match(message);
+            if (result) {
+                this.settleCommand(command, result instanceof Error ? result : message);
+            }
+        }
+    }
+
+    /**
+     * Reject pending commands
+     * @param {Error} err The error to reject with
+     * @param {string} [op] Only reject commands with this op
+     * @private
+     */
+    cancelCommands(err: Error, op?: string) {
+        for (let command of [...this.pendingCommands]) {
+            if (!op || command.op === op) {
+                this.settleCommand(command, err);
+            }
+        }
     }
 
     /**
-     * Set the volume of the player
+     * Resolve or reject a pending command
+     * @param {PendingCommand} command The command
+     * @param {PlayerMessage|Error} result The acknowledging message or the error
+     * @private
+     */
+    settleCommand(command: PendingCommand, result: PlayerMessage | Error) {
+        let index = this.pendingCommands.indexOf(command);
+        if (index === -1) return;
+
+        this.pendingCommands.splice(index, 1);
+        clearTimeout(command.timer);
+        if (result instanceof Error) {
+            command.reject(result);
+        } else {
+            command.resolve(result);
+        }
+    }
+
+    /**
+     * Set the volume of the player, cancels a fade in progress
      * @param {number} volume The volume level to set
      * @returns {void}
      */
     setVolume(volume: number): void {
-        this.node.send({
+        this.cancelFade();
+        this.sendVolume(volume);
+        this.volume = volume;
+        this.changed();
+    }
+
+    /**
+     * Gradually change the volume
+     * @param {number} volume The volume to fade to, from 0 to 1000
+     * @param {number} duration The duration of the fade in ms
+     * @returns {Promise<boolean>} Resolves with false if the fade was interrupted
+     */
+    fadeTo(volume: number, duration: number): Promise<boolean> {
+        if (typeof volume !== 'number' || isNaN(volume) || volume < 0 || volume > 1000) {
+            throw new RangeError('volume must be a number between 0 and 1000');
+        }
+
+        this.volume = volume;
+        this.changed();
+        return this.fadeOutput(volume, duration);
+    }
+
+    /**
+     * Gradually change the volume sent to Lavalink without changing the player volume
+     * @param {number} volume The volume to fade to
+     * @param {number} duration The duration of the fade in ms
+     * @returns {Promise<boolean>} Resolves with false if the fade was interrupted
+     * @private
+     */
+    fadeOutput(volume: number, duration: number): Promise<boolean> {
+        this.cancelFade();
+
+        let from = this.outputVolume,
+            started = Date.now();
+
+        if (from === volume) {
+            return Promise.resolve(true);
+        }
+
+        if (!(duration > 0)) {
+            this.sendVolume(volume);
+            return Promise.resolve(true);
+        }
+
+        return new Promise(res => {
+            this.fade = {
+                resolve: res,
+                timer: setInterval(() => {
+                    let progress = Math.min(1, (Date.now() - started) / duration),
+                        level = Math.round(from + ((volume - from) * progress));
+                    if (level !== this.outputVolume) {
+                        this.sendVolume(level);
+                    }
+                    if (progress >= 1) {
+                        this.cancelFade(true);
+                    }
+                }, FADE_INTERVAL),
+            };
+        });
+    }
+
+    /**
+     * Stop the fade in progress
+     * @param {boolean} [completed=false] Whether the fade completed
+     * @private
+     */
+    cancelFade(completed?: boolean) {
+        if (!this.fade) return;
+
+        let { timer, resolve } = this.fade;
+        clearInterval(timer);
+        this.fade = null;
+        resolve(!!completed);
+    }
+
+    /**
+     * Send the player volume to Lavalink if a fade left it at another level
+     * @private
+     */
+    restoreOutput() {
+        if (this.outputVolume !== this.volume) {
+            this.sendVolume(this.volume);
+        }
+    }
+
+    /**
+     * Send a volume to Lavalink
+     * @param {number} volume The volume
+     * @private
+     */
+    sendVolume(volume: number) {
+        this.queueEvent({
             op: 'volume',
             guildId: this.guildId,
             volume: volume,
         });
+        this.outputVolume = volume;
+    }
+
+    /**
+     * Move the player to another node, keeping the track, position, pause state, volume and filters
+     * @param {Lavalink} node The node to move to
+     * @returns {void}
+     * @private
+     */
+    moveNode(node: Lavalink): void {
+        let oldNode = this.node,
+            position = this.position;
+
+        if (oldNode.connected) {
+            oldNode.send({ op: 'destroy', guildId: this.guildId });
+        }
+        oldNode.discardBuffered(this.guildId);
+
+        this.node = node;
+        this.hostname = node.host;
+        this.cancelFade();
+        this.outputVolume = this.volume;
+        if (this.voiceUpdate) {
+            this.queueEvent(this.voiceUpdate);
+        }
+
+        if (this.track) {
+            this.queueEvent({
+                op: 'play',
+                guildId: this.guildId,
+                track: this.track,
+                startTime: position,
+                pause: this.paused,
+                volume: this.volume,
+            });
+        } else if (this.volume !== 100) {
+            this.queueEvent({ op: 'volume', guildId: this.guildId, volume: this.volume });
+        }
+
+        if (Object.keys(this.filters).length) {
+            this.sendFilters();
+        }
+
+        this.emit('move', oldNode);
+        this.changed();
     }
 
     /**
      * Called on track end
-     * @param {Object} message The end reason
+     * @param {TrackEndEvent} message The end reason
      * @private
      */
-    onTrackEnd(message: {reason: string}) {
+    onTrackEnd(message: TrackEndEvent) {
+        let track = this.track,
+            failure = this.failure,
+            // a track failing before it loads ends with LOAD_FAILED, a stream breaking mid-play ends with FINISHED
+            failed = (message.reason === 'LOAD_FAILED' || message.reason === 'FINISHED') && failure && failure.track === message.track;
+
+        this.failure = null;
+        if (message.reason === 'FINISHED' && !failed && this.recoveryTrack === track) {
+            this.recoveryTrack = null;
+        }
+
+        // the track failed, recover instead of moving on
+        if (failed && track === message.track) {
+            let severity = failure.exception ? failure.exception.severity : 'COMMON';
+            if (this.recoverTrack('exception', severity)) {
+                this.emit('end', message);
+                return;
+            }
+        }
+
         if (message.reason !== 'REPLACED') {
+            this.cancelFade();
             this.playing = false;
             this.lastTrack = this.track;
             this.track = null;
+            this.changed();
         }
         this.emit('end', message);
+
+        if (message.reason !== 'FINISHED' && message.reason !== 'LOAD_FAILED') {
+            this.crossfading = false;
+            return;
+        }
+
+        if (this.queue && this.advanceQueue(track, message.reason === 'LOAD_FAILED')) {
+            return;
+        }
+
+        if (this.crossfading) {
+            this.crossfading = false;
+            this.restoreOutput();
+        }
+
+        if (this.autoplay && message.reason === 'FINISHED' && track) {
+            this.playRelated(track);
+        } else if (this.queue) {
+            this.emit('queueEnd');
+        }
+    }
+
+    /**
+     * Play a track related to the one that finished
+     * @param {string} track The track that finished
+     * @returns {Promise<boolean>} False if no related track was found
+     * @private
+     */
+    async playRelated(track: string): Promise<boolean> {
+        let related: Track = null;
+
+        try {
+            let info = decodeTrack(track);
+            this.addAutoplayHistory(info.identifier);
+            related = await this.autoplayResolver(this, info, this.autoplayHistory);
+        } catch (err) {
+            this.emit('warn', `Unable to find a related track: ${err.message}`);
+        }
+
+        // something else started playing while resolving
+        if (this.track) {
+            return false;
+        }
+
+        if (!related) {
+            if (this.queue) {
+                this.emit('queueEnd');
+            }
+            return false;
+        }
+
+        this.addAutoplayHistory(related.info.identifier);
+        this.play(related.track);
+        this.emit('autoplay', related);
+        return true;
+    }
+
+    /**
+     * Remember a played track so autoplay doesn't repeat it
+     * @param {string} identifier The track identifier
+     * @private
+     */
+    addAutoplayHistory(identifier: string) {
+        this.autoplayHistory = this.autoplayHistory.filter(id => id !== identifier);
+        this.autoplayHistory.push(identifier);
+        if (this.autoplayHistory.length > 25) {
+            this.autoplayHistory.shift();
+        }
+    }
+
+    /**
+     * Play the next track of the queue
+     * @param {string} current The track that just ended
+     * @param {boolean} [skip] Ignore the track loop mode
+     * @returns {boolean} False if there is nothing left to play
+     * @private
+     */
+    advanceQueue(current: string, skip?: boolean): boolean {
+        let track = this.queue.next(current, skip);
+        if (!track) {
+            return false;
+        }
+
+        this.play(track);
+        this.emit('trackStart', track);
+        return true;
+    }
+
+    /**
+     * Skip to the next track of the queue, stops the player if the queue is empty
+     * @returns {boolean} False if there was no track to skip to
+     */
+    skip(): boolean {
+        if (this.queue) {
+            if (this.advanceQueue(this.track, true)) {
+                return true;
+            }
+            this.emit('queueEnd');
+        }
+
+        this.stop();
+        return false;
+    }
+
+    /**
+     * Play the previous track from the queue history
+     * @returns {boolean} False if there is no previous track
+     */
+    previous(): boolean {
+        if (!this.queue) {
+            return false;
+        }
+
+        let track = this.queue.previous(this.track);
+        if (!track) {
+            return false;
+        }
+
+        this.play(track);
+        this.emit('trackStart', track);
+        return true;
+    }
+
+    /**
+     * Called when Lavalink starts playing a track
+     * @param {TrackStartEvent} message The start event
+     * @private
+     */
+    onTrackStart(message: TrackStartEvent) {
+        this.emit('start', message.track);
+    }
+
+    /**
+     * Called when the Discord voice websocket of the player closed
+     * @param {WebSocketClosedEvent} message The close event
+     * @private
+     */
+    onWebSocketClosed(message: WebSocketClosedEvent) {
+        this.emit('voiceClosed', { code: message.code, reason: message.reason, byRemote: message.byRemote });
     }
 
     /**
      * Called on track exception
-     * @param {Object} message The exception encountered
+     * @param {TrackExceptionEvent} message The exception encountered
      * @private
      */
-    onTrackException(message: object) {
+    onTrackException(message: TrackExceptionEvent) {
+        // Lavalink ends the track after the exception, it is recovered when the end event arrives
+        if (this.recovery) {
+            this.failure = message;
+        }
         this.emit('error', message);
     }
 
     /**
      * Called on track stuck
-     * @param {Object} message The message if exists
+     * @param {TrackStuckEvent} message The message if exists
      * @private
      */
-    onTrackStuck(message: object) {
-        this.stop();
+    onTrackStuck(message: TrackStuckEvent) {
+        if (message.track === this.track && this.recoverTrack('stuck')) {
+            return;
+        }
+
+        this.stop({ fade: 0 });
         process.nextTick(() => this.emit('end', message));
     }
 
+    /**
+     * Recover the current track according to the recovery policy
+     * @param {string} cause Why the track is recovered, stuck or exception
+     * @param {string} [severity] The severity of the exception
+     * @returns {boolean} False if recovery is disabled
+     * @private
+     */
+    recoverTrack(cause: 'stuck' | 'exception', severity?: ExceptionSeverity): boolean {
+        if (!this.recovery || !this.track) {
+            return false;
+        }
+
+        if (this.recoveryTrack !== this.track) {
+            this.recoveryTrack = this.track;
+            this.recoveryAttempts = 0;
+        }
+
+        let action = cause === 'stuck' ? this.recovery.stuck : this.recovery.exceptions[severity] || this.recovery.exceptions.COMMON;
+        if ((action === 'retry' || action === 'switchNode') && this.recoveryAttempts >= this.recovery.maxRetries) {
+            action = this.recovery.fallback;
+        }
+
+        this.runRecovery({ cause, severity: severity || null, action, track: this.track, position: this.position, attempt: 0 });
+        return true;
+    }
+
+    /**
+     * Run a recovery action, falls back when no other node is available
+     * @param {RecoveryEvent} event The recovery to run
+     * @private
+     */
+    async runRecovery(event: RecoveryEvent) {
+        let { track, position } = event;
+
+        if (event.action === 'switchNode') {
+            let { tags } = (this.options || {}) as { tags?: string[] };
+            let node = await this.manager.findIdealNode(this.node.region, { guildId: this.guildId, tags, exclude: [this.node.host] });
+            if (this.track !== track) return;
+
+            if (node) {
+                try {
+                    await this.manager.movePlayer(this.guildId, node.host);
+                    event.attempt = ++this.recoveryAttempts;
+                    return this.emit('recovery', event);
+                } catch (err) {
+                    this.emit('warn', `Unable to switch node: ${err.message}`);
+                }
+            }
+            event.action = this.recovery.fallback;
+        }
+
+        switch (event.action) {
+            case 'retry': {
+                let info = this.currentTrackInfo;
+                event.attempt = ++this.recoveryAttempts;
+                this.play(track, info && info.isStream ? {} : { startTime: position });
+                break;
+            }
+            case 'skip':
+                if (!this.queue || !this.advanceQueue(track, true)) {
+                    if (this.queue) {
+                        this.emit('queueEnd');
+                    }
+                    this.stop({ fade: 0 });
+                }
+                break;
+            case 'stop':
+                this.stop({ fade: 0 });
+                break;
+        }
+
+        this.emit('recovery', event);
+    }
+
     /**
      * Switch voice channel
      * @param {string} channelId Called when switching channels
@@ -321,16 +1184,124 @@ class Player extends EventEmitter {
      * @returns {void}
      */
     switchChannel(channelId: string, reactive?: boolean): void {
-        if(this.channelId === channelId) {
+        if (this.channelId === channelId) {
             return;
         }
 
         this.channelId = channelId;
+        this.changed();
         if (reactive === true) {
             this.updateVoiceState(channelId);
         }
     }
 
+    /**
+     * The track position in ms, interpolated from the last player update and accounting for pauses, seeks and timescale
+     */
+    get position(): number {
+        let { time, position } = this.state;
+        if (position === undefined) return 0;
+        if (!this.track || !this.playing || this.paused || !time) return position;
+
+        return position + (Math.max(0, Date.now() - time) * this.playbackSpeed());
+    }
+
+    /**
+     * The playback speed of the timescale filter
+     * @private
+     */
+    playbackSpeed(): number {
+        let timescale = this.filters.timescale || {};
+        return (timescale.speed || 1) * (timescale.rate || 1);
+    }
+
+    /**
+     * The info decoded from the current track, null if there is no track or it can't be decoded
+     */
+    get currentTrackInfo(): DecodedTrackInfo {
+        if (!this.track) return null;
+        if (this.decodedTrack && this.decodedTrack.track === this.track) {
+            return this.decodedTrack.info;
+        }
+
+        try {
+            this.decodedTrack = { track: this.track, info: decodeTrack(this.track) };
+        } catch (err) {
+            return null;
+        }
+        return this.decodedTrack.info;
+    }
+
+    /**
+     * Called when the player state changed
+     * @private
+     */
+    changed() {
+        this.updateProgressTimer();
+        this.updateCrossfadeTimer();
+        this.emit('stateChange');
+    }
+
+    /**
+     * Start or stop the trackProgress events depending on the player state
+     * @private
+     */
+    updateProgressTimer() {
+        let active = this.progressInterval > 0 && this.track && this.playing && !this.paused;
+        if (active && !this.progressTimer) {
+            this.progressTimer = setInterval(() => this.emit('trackProgress', this.position), this.progressInterval);
+        } else if (!active && this.progressTimer) {
+            clearInterval(this.progressTimer);
+            this.progressTimer = null;
+        }
+    }
+
+    /**
+     * Schedule the fade out of the current track when crossfading into a queued track
+     * @private
+     */
+    updateCrossfadeTimer() {
+        if (this.crossfadeTimer) {
+            clearTimeout(this.crossfadeTimer);
+            this.crossfadeTimer = null;
+        }
+
+        if (!this.crossfade || !this.queue || !this.track || !this.playing || this.paused || this.crossfading) return;
+
+        let info = this.currentTrackInfo;
+        if (!info || info.isStream || !info.length) return;
+
+        let remaining = (info.length - this.position) / this.playbackSpeed();
+        if (remaining <= 0) return;
+
+        this.crossfadeTimer = setTimeout(() => {
+            this.crossfadeTimer = null;
+            if (!this.queue.length && this.queue.loop === 'off') return;
+
+            this.crossfading = true;
+            this.fadeOutput(0, Math.min(this.crossfade, remaining));
+        }, Math.max(0, remaining - this.crossfade));
+    }
+
+    /**
+     * Get a snapshot of the player state, used to persist and restore the player
+     * @returns {PlayerSnapshot}
+     */
+    snapshot(): PlayerSnapshot {
+        return {
+            guildId: this.guildId,
+            channelId: this.channelId,
+            host: this.node.host,
+            track: this.track,
+            position: this.position,
+            volume: this.volume,
+            paused: this.paused,
+            filters: this.getFilters(),
+            queue: this.queue ? { tracks: [...this.queue.tracks], history: [...this.queue.history], loop: this.queue.loop } : undefined,
+            timestamp: Date.now(),
+        };
+    }
+
     getTimestamp() {
         return Date.now() - this.timestamp;
     }
@@ -3,10 +3,77 @@
  * DISCLAIMER: We reuse some eris code
  */
 
-import { Client } from "eris";
-import Lavalink from "./Lavalink";
-import Player from "./Player";
+import { Client, Constants, Member, RawPacket, Shard, VoiceChannel } from 'eris';
+import Lavalink, { HeartbeatOptions, LavalinkOptions, LoadTracksResponse, ReconnectPolicy, Track, TrackInfo } from './Lavalink';
+import Player, { AutoLeaveEvent } from './Player';
+import { InboundPayload, WebSocketClosedEvent } from './Protocol';
+import { createNodeSelector, NodeSelectionStrategy, NodeSelector } from './NodeSelection';
+import Queue from './Queue';
+import { PlayerSnapshot, StorageAdapter } from './Storage';
+import { AutoplayResolver } from './Autoplay';
+import Metrics, { MetricsSnapshot } from './Metrics';
+import { RecoveryOptions } from './Recovery';
+import { InvalidChannelError, JoinAbortedError, JoinTimeoutError, NoNodesAvailableError, RestoreTimeoutError, UnknownGuildError } from './Errors';
 
+/**
+ * A Discord voice server update, with the session id and shard added by the caller
+ */
+export interface VoiceServerUpdate {
+    guild_id: string;
+    token: string;
+    endpoint: string;
+    session_id?: string;
+    shard?: Shard;
+}
+
+/**
+ * Discord voice close codes after which the voice session is reconnected: session invalid, session timeout and voice server crashed
+ */
+const RECOVERABLE_CLOSE_CODES = [4006, 4009, 4015];
+
+/**
+ * Discord voice close codes after which the player is destroyed: authentication failed and disconnected or kicked
+ */
+const FATAL_CLOSE_CODES = [4004, 4014];
+
+/**
+ * The time in ms after the last voice reconnect at which the attempts of a guild start over
+ */
+const VOICE_RECONNECT_RESET = 60000;
+
+/**
+ * How players reconnect their voice session after a recoverable close, the delay doubles with every attempt
+ */
+export interface VoiceReconnectOptions {
+    maxAttempts: number;
+    baseDelay: number;
+    maxDelay: number;
+}
+
+/**
+ * The part of an AbortSignal used to cancel a join
+ */
+export interface JoinSignal {
+    aborted: boolean;
+    addEventListener(type: 'abort', listener: () => void): void;
+    removeEventListener(type: 'abort', listener: () => void): void;
+}
+
+/**
+ * A join waiting for the voice server update
+ * @private
+ */
+interface PendingJoin {
+    channelId: string;
+    hostname: string;
+    options: Object;
+    player: Player | null;
+    node: Lavalink;
+    promise: Promise<Player>;
+    res: (player: Player) => void;
+    rej: (err: Error) => void;
+    timeout: NodeJS.Timeout;
+}
 
 /**
  * Player Manager
@@ -15,35 +82,76 @@ import Player from "./Player";
  * @prop {object} client The eris client
  * @prop {object} defaultRegions The default region config
  * @prop {object} regions The region config being used
+ * @prop {Metrics} metrics The recorded metrics, see getMetrics
  */
 class PlayerManager {
     client: Client;
     players: Map<string, Player>
     nodes: Map<string | number, Lavalink>;
     options: any;
-    pendingGuilds: {[s: string]: { channelId: string, hostname?: string, options: Object | {}, player: Player | null, node: Lavalink, res: (value?: Player | PromiseLike<Player>) => void, rej: any, timeout: NodeJS.Timeout }};
+    pendingGuilds: {[s: string]: PendingJoin};
     defaultRegions: { asia: string[]; eu: string[]; us: string[]; };
     shardReadyListener: (id: number) => void;
+    rawWSListener: (packet: RawPacket, id: number) => void;
+    voiceChannelListener: (member: Member, ...channels: VoiceChannel[]) => void;
+    voiceSessions: Map<string, { sessionId: string, channelId: string }>;
+    pendingServerUpdates: Map<string, VoiceServerUpdate>;
     failoverQueue: Function[];
     failoverRate: number;
     failoverLimit: number;
     regions: { [s: string]: string[]; };
+    resumeTimeouts: Map<string, NodeJS.Timeout>;
+    nodeSelector: NodeSelector;
+    idleTimeouts: Map<string, NodeJS.Timeout>;
+    aloneTimeouts: Map<string, NodeJS.Timeout>;
+    alonePaused: Set<string>;
+    voiceReconnectOptions: VoiceReconnectOptions;
+    voiceReconnects: Map<string, { attempts: number, lastAttemptAt: number, timer: NodeJS.Timeout }>;
+    metrics: Metrics;
+
 
-    
     /**
      * PlayerManager constructor
      * @param {Client} client Eris client
      * @param {Object[]} nodes The Lavalink nodes to connect to
      * @param {Object} [options] Setup options
+     * @param {number} [options.numShards] The number of shards the bot is running
+     * @param {string} [options.userId] The user id of the bot
      * @param {string} [options.defaultRegion] The default region
      * @param {number} [options.failoverRate=250] Failover rate in ms
      * @param {number} [options.failoverLimit=1] Number of connections to failover per rate limit
      * @param {Object} [options.player] Optional Player class to replace the default Player
-     * @param {number} [options.reconnectThreshold=2000] The amount of time to skip ahead in a song when reconnecting in ms
+     * @param {number} [options.reconnectThreshold] Deprecated, the interpolated player position is used when reconnecting
      * @param {Object} [options.regions] Region mapping object
+     * @param {boolean} [options.queue=false] Whether to attach a track queue to new players
+     * @param {string} [options.resumeKey] The key used to resume node sessions, persist it to resume after a restart
+     * @param {number} [options.resumeTimeout=60] The time in seconds Lavalink keeps a session alive after a disconnect
+     * @param {string|Function} [options.nodeSelection='load'] The node selection strategy, one of load, players, playingPlayers, penalty, roundRobin or a custom selector
+     * @param {Object} [options.reconnect] The reconnect backoff policy of the nodes, see Lavalink
+     * @param {Object} [options.heartbeat] The health check options of the nodes, see Lavalink
+     * @param {boolean} [options.voiceEvents=true] Whether to handle voice state and server updates from the client gateway events
+     * @param {StorageAdapter} [options.storage] Storage adapter used to persist player state, see restore
+     * @param {number} [options.progressInterval=0] The interval in ms of player trackProgress events, 0 disables them
+     * @param {boolean} [options.autoplay=false] Whether players play a related track when a track finishes and nothing is queued
+     * @param {Function} [options.autoplayResolver] Finds the related track to play, searches through the node by default
+     * @param {number} [options.idleTimeout=0] Leave after this many seconds without a track, 0 disables it
+     * @param {number} [options.aloneTimeout=0] Leave after this many seconds alone in the voice channel, 0 disables it
+     * @param {boolean} [options.pauseWhenAlone=false] Pause while alone in the voice channel and resume when someone joins
+     * @param {number} [options.fadeIn=0] The time in ms new tracks fade in
+     * @param {number} [options.fadeOut=0] The time in ms players fade out before stopping or pausing
+     * @param {number} [options.crossfade=0] The time in ms queued tracks fade out before their end and the next track fades in
+     * @param {Object} [options.recovery] How players recover from stuck and failed tracks, see createRecoveryPolicy, disabled if omitted
+     * @param {number} [options.commandTimeout=10000] The time in ms players wait for Lavalink to acknowledge play and seek
+     * @param {number} [options.joinTimeout=10000] The time in ms to wait for the voice server update when joining
+     * @param {number} [options.restoreTimeout=60000] The time in ms restore waits for the shard of a guild and for a connected node
+     * @param {Object} [options.voiceReconnect] How players reconnect their voice session after the close codes 4006, 4009 and 4015
+     * @param {number} [options.voiceReconnect.maxAttempts=3] Reconnects in a row after which the player is disconnected
+     * @param {number} [options.voiceReconnect.baseDelay=1000] The delay in ms before the first reconnect, doubled for every further attempt
+     * @param {number} [options.voiceReconnect.maxDelay=10000] The maximum delay in ms
+     * @param {Object} [options.metrics] Metrics options
+     * @param {number} [options.metrics.historySize=60] The number of stats samples kept per node
      */
-    constructor(client : Client, nodes: {host: string, port: number, region: string, password: string }[], options?: { defaultRegion?: string, failoverRate?: number, failoverLimit?: number, player?: Player, reconnectThreshold?: number, regions: {[s: string]: string[]} }) {
-
+    constructor(client : Client, nodes: Omit<LavalinkOptions, 'numShards' | 'userId'>[], options?: { numShards?: number, userId?: string, defaultRegion?: string, failoverRate?: number, failoverLimit?: number, player?: Player, reconnectThreshold?: number, regions?: {[s: string]: string[]}, queue?: boolean, resumeKey?: string, resumeTimeout?: number, nodeSelection?: NodeSelectionStrategy | NodeSelector, reconnect?: Partial<ReconnectPolicy>, heartbeat?: Partial<HeartbeatOptions>, voiceEvents?: boolean, storage?: StorageAdapter, progressInterval?: number, autoplay?: boolean, autoplayResolver?: AutoplayResolver, idleTimeout?: number, aloneTimeout?: number, pauseWhenAlone?: boolean, fadeIn?: number, fadeOut?: number, crossfade?: number, recovery?: RecoveryOptions, commandTimeout?: number, joinTimeout?: number, restoreTimeout?: number, voiceReconnect?: Partial<VoiceReconnectOptions>, metrics?: { historySize?: number } }) {
         this.client = client;
         this.nodes = new Map();
         this.players = new Map();
@@ -52,6 +160,16 @@ class PlayerManager {
         this.failoverQueue = [];
         this.failoverRate = options.failoverRate || 250;
         this.failoverLimit = options.failoverLimit || 1;
+        this.resumeTimeouts = new Map();
+        this.nodeSelector = createNodeSelector(options.nodeSelection);
+        this.voiceSessions = new Map();
+        this.pendingServerUpdates = new Map();
+        this.idleTimeouts = new Map();
+        this.aloneTimeouts = new Map();
+        this.alonePaused = new Set();
+        this.voiceReconnectOptions = Object.assign({ maxAttempts: 3, baseDelay: 1000, maxDelay: 10000 }, options.voiceReconnect);
+        this.voiceReconnects = new Map();
+        this.metrics = new Metrics(options.metrics);
 
         this.defaultRegions = {
             asia: ['hongkong', 'singapore', 'sydney'],
@@ -62,12 +180,28 @@ class PlayerManager {
         this.regions = options.regions || this.defaultRegions;
 
         for (let node of nodes) {
-            //@ts-ignore
-            this.createNode(Object.assign({}, node, options));
+            // @ts-ignore
+            this.createNode(Object.assign({}, options, node));
         }
 
         this.shardReadyListener = this.shardReady.bind(this);
         this.client.on('shardReady', this.shardReadyListener);
+
+        if (options.voiceEvents !== false) {
+            this.rawWSListener = this.onRawWS.bind(this);
+            this.client.on('rawWS', this.rawWSListener);
+        }
+
+        if (options.aloneTimeout || options.pauseWhenAlone) {
+            this.voiceChannelListener = (_member: Member, ...channels: VoiceChannel[]) => {
+                for (let channel of channels) {
+                    this.checkAlone(channel.guild.id);
+                }
+            };
+            this.client.on('voiceChannelJoin', this.voiceChannelListener);
+            this.client.on('voiceChannelLeave', this.voiceChannelListener);
+            this.client.on('voiceChannelSwitch', this.voiceChannelListener);
+        }
     }
 
     /**
@@ -79,9 +213,26 @@ class PlayerManager {
      * @param {number} options.numShards The number of shards the bot is running
      * @param {string} options.userId The user id of the bot
      * @param {string} options.password The password for the Lavalink node
+     * @param {boolean} [options.secure=false] Whether to use wss and https
+     * @param {string} [options.path] A path prefix, e.g. when the node is behind a reverse proxy
+     * @param {Object} [options.headers] Additional headers sent with the websocket and REST requests
+     * @param {string} [options.clientName='eris-lavalink'] The name sent as Client-Name header
+     * @param {Object} [options.tls] TLS options for secure connections, ca and rejectUnauthorized
+     * @param {number} [options.restPort] The port of the REST api, defaults to the websocket port
+     * @param {boolean} [options.restSecure] Whether to use https for the REST api, defaults to options.secure
+     * @param {string} [options.resumeKey] The key used to resume the session
+     * @param {number} [options.resumeTimeout=60] The time in seconds Lavalink keeps the session alive after a disconnect
+     * @param {number} [options.weight=1] The relative capacity of the node
+     * @param {number} [options.priority=0] Nodes with a higher priority are selected before any other node
+     * @param {string[]} [options.tags] Tags used to pin players to this node
+     * @param {Object} [options.reconnect] The reconnect backoff policy
+     * @param {Object} [options.heartbeat] The health check options
+     * @param {Object} [options.buffer] The buffer of commands sent while the node is disconnected, size and ttl
+     * @param {number} [options.version] The protocol version, 3 or 4, detected on connect if omitted
+     * @param {number} [options.requestTimeout=10000] The time in ms after which a REST request is aborted
      * @returns {void}
      */
-    createNode(options: {host: string, port: number, region: string, numShards: number, userId: string, password: string }): void {
+    createNode(options: LavalinkOptions): void {
         let node = new Lavalink({
             host: options.host,
             port: options.port,
@@ -89,10 +240,36 @@ class PlayerManager {
             numShards: options.numShards,
             userId: options.userId,
             password: options.password,
+            secure: options.secure,
+            path: options.path,
+            headers: options.headers,
+            clientName: options.clientName,
+            tls: options.tls,
+            restPort: options.restPort,
+            restSecure: options.restSecure,
+            resumeKey: options.resumeKey,
+            resumeTimeout: options.resumeTimeout,
+            weight: options.weight,
+            priority: options.priority,
+            tags: options.tags,
+            reconnect: options.reconnect,
+            heartbeat: options.heartbeat,
+            buffer: options.buffer,
+            version: options.version,
+            requestTimeout: options.requestTimeout,
         });
 
         node.on('error', this.onError.bind(this, node));
+        node.on('ready', this.onReady.bind(this, node));
+        node.on('reconnecting', (attempt, delay) => {
+            this.metrics.recordReconnect(node);
+            this.client.emit('nodeReconnecting', node, attempt, delay);
+        });
+        node.on('dead', () => this.client.emit('nodeDead', node));
+        node.on('unhealthy', reason => this.client.emit('nodeUnhealthy', node, reason));
+        node.on('dropped', (payload, reason) => this.client.emit('nodeDropped', node, payload, reason));
         node.on('disconnect', this.onDisconnect.bind(this, node));
+        node.on('warn', this.onWarn.bind(this));
         node.on('message', this.onMessage.bind(this, node));
 
         this.nodes.set(options.host, node);
@@ -108,6 +285,10 @@ class PlayerManager {
         if (!host) return;
         node.destroy();
         this.nodes.delete(host);
+        if (this.resumeTimeouts.has(host)) {
+            clearTimeout(this.resumeTimeouts.get(host));
+            this.resumeTimeouts.delete(host);
+        }
         this.onDisconnect(node);
     }
 
@@ -156,12 +337,64 @@ class PlayerManager {
         this.client.emit('error', err);
     }
 
+    /**
+     * Called when a warning is received from a Lavalink node
+     * @param {string} message The warning received
+     * @private
+     */
+    onWarn(message: string) {
+        this.client.emit('warn', message);
+    }
+
     /**
      * Called when a node disconnects
      * @param {Lavalink} node The Lavalink node
      * @private
      */
     onDisconnect(node: Lavalink) {
+        if (node.resumeKey && this.nodes.get(node.host) === node) {
+            if (!this.resumeTimeouts.has(node.host)) {
+                this.resumeTimeouts.set(node.host, setTimeout(() => {
+                    this.resumeTimeouts.delete(node.host);
+                    this.failoverPlayers(node);
+                }, node.resumeTimeout * 1000));
+            }
+            return;
+        }
+
+        this.failoverPlayers(node);
+    }
+
+    /**
+     * Called when a node connects
+     * @param {Lavalink} node The Lavalink node
+     * @private
+     */
+    onReady(node: Lavalink) {
+        let timeout = this.resumeTimeouts.get(node.host);
+        if (!timeout) return;
+
+        clearTimeout(timeout);
+        this.resumeTimeouts.delete(node.host);
+
+        if (node.resumed) {
+            for (let player of this.players.values()) {
+                if (player.node === node) {
+                    player.emit('resumed');
+                }
+            }
+            return;
+        }
+
+        this.failoverPlayers(node);
+    }
+
+    /**
+     * Move all players of a node to other nodes
+     * @param {Lavalink} node The Lavalink node
+     * @private
+     */
+    failoverPlayers(node: Lavalink) {
         let players = Array.from(this.players.values()).filter(player => player.node.host === node.host);
         for (let player of players) {
             this.queueFailover(this.switchNode.bind(this, player, true));
@@ -180,15 +413,82 @@ class PlayerManager {
         }
     }
 
+    /**
+     * Called on every gateway packet, used to track voice state and server updates
+     * @param {RawPacket} packet The raw gateway packet
+     * @param {number} id Shard ID
+     * @private
+     */
+    onRawWS(packet: RawPacket, id: number) {
+        switch (packet.t) {
+            case 'VOICE_STATE_UPDATE':
+                return this.voiceStateUpdate(packet.d);
+            case 'VOICE_SERVER_UPDATE':
+                return this.onVoiceServer(Object.assign({ shard: this.client.shards.get(id) }, packet.d));
+        }
+    }
+
+    /**
+     * Called when a voice state update is received, tracks the voice session of the bot
+     * @param {Object} data The voice state update
+     * @private
+     */
+    voiceStateUpdate(data: { guild_id: string, channel_id: string, user_id: string, session_id: string }) {
+        if (!data.guild_id || !this.client.user || data.user_id !== this.client.user.id) return;
+
+        let guildId = data.guild_id;
+        if (!data.channel_id) {
+            this.voiceSessions.delete(guildId);
+            this.pendingServerUpdates.delete(guildId);
+
+            let player = this.players.get(guildId);
+            if (player && !this.pendingGuilds[guildId]) {
+                this.players.delete(guildId);
+                player.disconnect(new Error('Disconnected from the voice channel'));
+                this.clearAutoLeave(guildId);
+                this.clearVoiceReconnect(guildId);
+            }
+            return;
+        }
+
+        this.voiceSessions.set(guildId, { sessionId: data.session_id, channelId: data.channel_id });
+
+        let player = this.players.get(guildId);
+        if (player && player.channelId !== data.channel_id) {
+            player.switchChannel(data.channel_id);
+        }
+
+        let serverUpdate = this.pendingServerUpdates.get(guildId);
+        if (serverUpdate) {
+            this.pendingServerUpdates.delete(guildId);
+            this.onVoiceServer(serverUpdate);
+        }
+    }
+
+    /**
+     * Called when a voice server update is received from the gateway, waits for the voice session before connecting
+     * @param {VoiceServerUpdate} data The voice server update
+     * @private
+     */
+    onVoiceServer(data: VoiceServerUpdate) {
+        let session = this.voiceSessions.get(data.guild_id);
+        if (!session) {
+            this.pendingServerUpdates.set(data.guild_id, data);
+            return;
+        }
+
+        return this.connectVoiceServer(Object.assign({}, data, { session_id: session.sessionId }));
+    }
+
     /**
      * Switch the voice node of a player
      * @param {Player} player The Player instance
      * @param {boolean} leave Whether to leave the channel or not on our side
-     * @returns {void}
+     * @returns {Promise<boolean>} Resolves once the player rejoined, false if it could not rejoin and was disconnected
      */
-    switchNode(player: Player, leave?: boolean): void {
+    switchNode(player: Player, leave?: boolean): Promise<boolean> {
         let { guildId, channelId, track, paused } = player,
-            position = (player.state.position || 0) + (this.options.reconnectThreshold || 2000);
+            position = player.position;
 
         let listeners = player.listeners('end'),
             endListeners : any[] = [];
@@ -196,7 +496,7 @@ class PlayerManager {
         if (listeners && listeners.length) {
             for (let listener of listeners) {
                 endListeners.push(listener);
-                //@ts-ignore
+                // @ts-ignore
                 player.removeListener('end', listener);
             }
         }
@@ -208,6 +508,9 @@ class PlayerManager {
         });
 
         this.players.delete(guildId);
+        this.metrics.recordFailover();
+        // commands buffered while the node was down would create a second player once it reconnects
+        player.node.discardBuffered(guildId);
 
         player.playing = false;
 
@@ -215,122 +518,743 @@ class PlayerManager {
             player.updateVoiceState(null);
         }
 
-        process.nextTick(() => {
-            this.join(guildId, channelId, null, player).then(player => {
+        let { tags } = (player.options || {}) as { tags?: string[] };
+
+        return new Promise(res => process.nextTick(res)).then(() => {
+            return this.join(guildId, channelId, { tags }, player).then(player => {
                 if (paused) {
                     player.pause();
                 }
-                player.play(track, { startTime: position });
+                player.play(track, { startTime: position, volume: player.volume });
+                if (Object.keys(player.filters).length) {
+                    player.sendFilters();
+                }
                 player.emit('reconnect');
                 this.players.set(guildId, player);
+                return true;
             })
             .catch(() => {
                 player.disconnect();
+                return false;
             });
         });
     }
 
+    /**
+     * Move a player to another node
+     * @param {string} guildId The guild ID of the player
+     * @param {string} [host] The hostname of the node to move to, the ideal node is used if omitted
+     * @returns {Promise<Player>}
+     */
+    async movePlayer(guildId: string, host?: string): Promise<Player> {
+        let player = this.players.get(guildId);
+        if (!player) {
+            throw new Error(`No player for guild ${guildId}`);
+        }
+
+        let { tags } = (player.options || {}) as { tags?: string[] };
+        let node = host ? this.nodes.get(host) : await this.findIdealNode(player.node.region, { guildId, tags });
+        if (!node || !node.connected) {
+            throw new NoNodesAvailableError(host ? null : player.node.region);
+        }
+
+        if (node === player.node) {
+            return player;
+        }
+
+        // without a voice update the player has to rejoin, wait for it so drainNode resolves once the node is empty
+        if (!player.voiceUpdate) {
+            if (!await this.switchNode(player, true)) {
+                throw new Error(`Unable to rejoin the voice channel of guild ${guildId}`);
+            }
+            return player;
+        }
+
+        player.moveNode(node);
+        return player;
+    }
+
+    /**
+     * Stop sending new players to a node and move all of its players to other nodes
+     * @param {string} host The hostname of the node
+     * @returns {Promise<void>} Resolves when no players are left on the node
+     */
+    async drainNode(host: string): Promise<void> {
+        let node = this.nodes.get(host);
+        if (!node) {
+            throw new Error(`Unknown voice node ${host}`);
+        }
+
+        node.draining = true;
+
+        let players = Array.from(this.players.values()).filter(player => player.node === node);
+        let results = await Promise.all(players.map(player => new Promise<boolean>(res => {
+            this.queueFailover(() => this.movePlayer(player.guildId).then(() => res(true), () => res(false)));
+        })));
+
+        if (results.includes(false)) {
+            throw new Error(`Unable to move every player off ${host}`);
+        }
+    }
+
     /**
      * Called when a message is received from the voice node
-     * @param {*} message The message received
+     * @param {Lavalink} node The node the message was received from
+     * @param {InboundPayload} message The message received
      * @private
      */
-    onMessage(message: any) {
+    onMessage(node: Lavalink, message: InboundPayload) {
         if (!message.op) return;
 
         switch (message.op) {
+            case 'stats':
+                return this.metrics.recordStats(node, message);
             case 'playerUpdate': {
                 let player = this.players.get(message.guildId);
-                if (!player) return;
+                if (!player || player.node !== node) return;
 
+                player.acknowledge(message);
                 return player.stateUpdate(message.state);
             }
             case 'event': {
                 let player = this.players.get(message.guildId);
-                if (!player) return;
+                if (!player || player.node !== node) return;
 
+                player.acknowledge(message);
                 switch (message.type) {
+                    case 'TrackStartEvent':
+                        return player.onTrackStart(message);
                     case 'TrackEndEvent':
                         return player.onTrackEnd(message);
                     case 'TrackExceptionEvent':
+                        this.metrics.recordTrackException();
                         return player.onTrackException(message);
                     case 'TrackStuckEvent':
+                        this.metrics.recordTrackStuck();
                         return player.onTrackStuck(message);
+                    case 'WebSocketClosedEvent':
+                        player.onWebSocketClosed(message);
+                        return this.onVoiceClosed(player, message);
                     default:
-                        return player.emit('warn', `Unexpected event type: ${message.type}`);
+                        return player.emit('warn', `Unexpected event type: ${(message as { type: string }).type}`);
                 }
             }
         }
     }
 
     /**
-     * Join a voice channel
+     * Called when the Discord voice websocket of a player closed, reconnects the voice session or cleans up the player depending on the close code
+     * @param {Player} player The player
+     * @param {WebSocketClosedEvent} message The close event
+     * @private
+     */
+    onVoiceClosed(player: Player, message: WebSocketClosedEvent) {
+        let { guildId, channelId } = player;
+
+        // a pending join already connects a new voice session
+        if (this.pendingGuilds[guildId] || this.players.get(guildId) !== player) {
+            return;
+        }
+
+        if (FATAL_CLOSE_CODES.includes(message.code)) {
+            return this.leave(guildId).then(() => {
+                player.emit('disconnect', new Error(`Voice connection closed with code ${message.code}: ${message.reason}`));
+            });
+        }
+
+        if (!RECOVERABLE_CLOSE_CODES.includes(message.code) || !channelId) {
+            return;
+        }
+
+        let reconnect = this.voiceReconnects.get(guildId);
+        if (reconnect && reconnect.timer) {
+            return;
+        }
+        if (!reconnect || Date.now() - reconnect.lastAttemptAt > VOICE_RECONNECT_RESET) {
+            reconnect = { attempts: 0, lastAttemptAt: 0, timer: null };
+            this.voiceReconnects.set(guildId, reconnect);
+        }
+
+        let { maxAttempts, baseDelay, maxDelay } = this.voiceReconnectOptions;
+        if (reconnect.attempts >= maxAttempts) {
+            return this.leave(guildId).then(() => {
+                player.emit('disconnect', new Error(`Voice connection closed with code ${message.code} after ${maxAttempts} reconnects`));
+            });
+        }
+
+        let delay = Math.min(baseDelay * Math.pow(2, reconnect.attempts), maxDelay);
+        reconnect.attempts++;
+        reconnect.timer = setTimeout(() => {
+            reconnect.timer = null;
+            reconnect.lastAttemptAt = Date.now();
+            if (this.pendingGuilds[guildId] || this.players.get(guildId) !== player) return;
+
+            // rejoin the channel so discord sends a new voice session, the player stays on its node
+            this.join(guildId, channelId, { node: player.node.host }, player).catch(err => {
+                if (this.players.get(guildId) !== player) return;
+                this.players.delete(guildId);
+                player.disconnect(err);
+                this.clearAutoLeave(guildId);
+                this.clearVoiceReconnect(guildId);
+            });
+            player.updateVoiceState(null);
+            player.updateVoiceState(channelId);
+        }, delay);
+    }
+
+    /**
+     * Cancel the scheduled voice reconnect of a guild and forget its attempts
+     * @param {string} guildId The guild ID
+     * @private
+     */
+    clearVoiceReconnect(guildId: string) {
+        let reconnect = this.voiceReconnects.get(guildId);
+        if (reconnect && reconnect.timer) {
+            clearTimeout(reconnect.timer);
+        }
+        this.voiceReconnects.delete(guildId);
+    }
+
+    /**
+     * Join a voice channel, concurrent joins of the same guild share the pending join
      * @param {string} guildId The guild ID
      * @param {string} channelId The channel ID
      * @param {Object} options Join options
+     * @param {string} [options.node] The hostname of the node to use
+     * @param {string} [options.region] The region used to pick the node
+     * @param {string[]} [options.tags] Only use nodes that have all of these tags
+     * @param {number} [options.timeout] The time in ms to wait for the voice server update, defaults to the joinTimeout option
+     * @param {AbortSignal} [options.signal] Cancels the pending join
      * @param {Player} [player] Optionally pass an existing player
      * @returns {Promise<Player>}
      */
-    async join(guildId: string, channelId: string, options: {node?: any, region?: string }, player: Player): Promise<Player> {
+    async join(guildId: string, channelId: string, options: {node?: any, region?: string, tags?: string[], timeout?: number, signal?: JoinSignal }, player: Player): Promise<Player> {
         options = options || {};
 
+        if (!channelId) {
+            this.metrics.recordJoinFailure();
+            throw new InvalidChannelError(guildId, channelId);
+        }
+
+        if (options.signal && options.signal.aborted) {
+            this.metrics.recordJoinFailure();
+            throw new JoinAbortedError(guildId);
+        }
+
         player = player || this.players.get(guildId);
         if (player && player.channelId !== channelId) {
             player.switchChannel(channelId);
-            return Promise.resolve(player);
+            return player;
+        }
+
+        if (this.pendingGuilds[guildId]) {
+            return this.joinPending(guildId, channelId, options.signal);
         }
 
         let region, node: Lavalink;
 
-        if(options.node) {
+        if (options.node) {
             node = this.nodes.get(options.node);
-            region = node.region;
+            region = node ? node.region : null;
         } else {
             region = this.getRegionFromData(options.region || 'us');
-            node = await this.findIdealNode(region);
+            node = await this.findIdealNode(region, { guildId, tags: options.tags });
+        }
+
+        // another join may have started while the node was picked
+        if (this.pendingGuilds[guildId]) {
+            return this.joinPending(guildId, channelId, options.signal);
         }
 
         if (!node) {
-            return Promise.reject('No available voice nodes.');
+            this.metrics.recordJoinFailure();
+            throw new NoNodesAvailableError(region);
         }
 
-        return new Promise((res, rej) => {
-            this.pendingGuilds[guildId] = {
-                channelId: channelId,
-                options: options || {},
-                player: player || null,
-                node: node,
-                res: res,
-                rej: rej,
-                timeout: setTimeout(() => {
-                    delete this.pendingGuilds[guildId];
-                    rej(new Error('Voice connection timeout'));
-                }, 10000),
+        let { signal, timeout, ...joinOptions } = options,
+            joinTimeout = timeout || this.options.joinTimeout || 10000,
+            started = Date.now();
+
+        let pending: PendingJoin = {
+            channelId: channelId,
+            hostname: node.host,
+            options: joinOptions,
+            player: player || null,
+            node: node,
+            promise: null,
+            res: null,
+            rej: null,
+            timeout: null,
+        };
+
+        pending.promise = new Promise((res, rej) => {
+            let settle = () => {
+                if (this.pendingGuilds[guildId] !== pending) {
+                    return false;
+                }
+                delete this.pendingGuilds[guildId];
+                if (pending.timeout) {
+                    clearTimeout(pending.timeout);
+                }
+                return true;
+            };
+
+            pending.res = (value: Player) => {
+                if (!settle()) return;
+                this.metrics.recordJoin(Date.now() - started);
+                res(value);
+            };
+            pending.rej = (err: Error) => {
+                if (!settle()) return;
+                if (err instanceof JoinTimeoutError) {
+                    this.metrics.recordJoinTimeout();
+                } else {
+                    this.metrics.recordJoinFailure();
+                }
+                rej(err);
             };
         });
+
+        pending.timeout = setTimeout(() => pending.rej(new JoinTimeoutError(guildId, joinTimeout)), joinTimeout);
+        this.pendingGuilds[guildId] = pending;
+        return this.joinPending(guildId, channelId, signal);
     }
 
     /**
-     * Leave a voice channel
+     * Wait for the pending join of a guild, the join is cancelled when the signal aborts
      * @param {string} guildId The guild ID
-     * @returns {void}
+     * @param {string} channelId The channel ID, replaces the channel of the pending join
+     * @param {AbortSignal} [signal] The abort signal
+     * @returns {Promise<Player>}
+     * @private
+     */
+    joinPending(guildId: string, channelId: string, signal?: JoinSignal): Promise<Player> {
+        let pending = this.pendingGuilds[guildId];
+        pending.channelId = channelId;
+        if (!signal) {
+            return pending.promise;
+        }
+
+        let onAbort = () => pending.rej(new JoinAbortedError(guildId));
+        signal.addEventListener('abort', onAbort);
+
+        let removeListener = () => signal.removeEventListener('abort', onAbort);
+        pending.promise.then(removeListener, removeListener);
+        return pending.promise;
+    }
+
+    /**
+     * Pick up a player from a resumed session, e.g. after a restart with a persisted resume key
+     * @param {string} guildId The guild ID
+     * @param {string} channelId The channel ID the bot is connected to
+     * @param {string} host The hostname of the node holding the session
+     * @returns {Player}
+     */
+    resumePlayer(guildId: string, channelId: string, host: string): Player {
+        let node = this.nodes.get(host);
+        if (!node) {
+            throw new Error(`Unknown voice node ${host}`);
+        }
+
+        let player = this.players.get(guildId);
+        if (player) {
+            return player;
+        }
+
+        player = new Player(guildId, {
+            shard: this.client.shards.get(this.client.guildShardMap[guildId]),
+            guildId: guildId,
+            channelId: channelId,
+            hostname: host,
+            node: node,
+            manager: this,
+            queue: this.options.queue,
+            progressInterval: this.options.progressInterval,
+            autoplay: this.options.autoplay,
+            autoplayResolver: this.options.autoplayResolver,
+            fadeIn: this.options.fadeIn,
+            fadeOut: this.options.fadeOut,
+            crossfade: this.options.crossfade,
+            recovery: this.options.recovery,
+            commandTimeout: this.options.commandTimeout,
+        });
+        player.ready = true;
+        this.persistPlayer(player);
+        this.players.set(guildId, player);
+        this.watchPlayer(player);
+        return player;
+    }
+
+    /**
+     * Leave a voice channel, cancels a pending join, disconnects from Discord and destroys the Lavalink player
+     * @param {string} guildId The guild ID
+     * @returns {Promise<void>}
      */
     async leave(guildId: string): Promise<void> {
+        let pending = this.pendingGuilds[guildId];
+        if (pending) {
+            pending.rej(new JoinAbortedError(guildId, 'left the voice channel'));
+        }
+        this.clearVoiceReconnect(guildId);
+
         let player = this.players.get(guildId);
         if (!player) {
+            let shard = this.client.shards.get(this.client.guildShardMap[guildId] || 0);
+            if (pending && shard) {
+                shard.sendWS(Constants.GatewayOPCodes.VOICE_STATE_UPDATE, {
+                    guild_id: guildId,
+                    channel_id: null,
+                    self_mute: false,
+                    self_deaf: false,
+                });
+            }
             return;
         }
+
+        player.updateVoiceState(null);
         player._disconnect();
         this.players.delete(guildId);
+        this.clearAutoLeave(guildId);
+        this.deleteSnapshot(guildId);
+    }
+
+    /**
+     * Apply the idle and alone policies to a player
+     * @param {Player} player The player to watch
+     * @private
+     */
+    watchPlayer(player: Player) {
+        if (this.options.idleTimeout) {
+            player.on('stateChange', () => this.checkIdle(player));
+            this.checkIdle(player);
+        }
+
+        if (this.options.aloneTimeout || this.options.pauseWhenAlone) {
+            player.once('ready', () => this.checkAlone(player.guildId));
+        }
+    }
+
+    /**
+     * Start or cancel the idle timeout of a player
+     * @param {Player} player The player
+     * @private
+     */
+    checkIdle(player: Player) {
+        let guildId = player.guildId;
+        if (this.players.get(guildId) !== player) return;
+        if (player.track) {
+            if (this.idleTimeouts.has(guildId)) {
+                clearTimeout(this.idleTimeouts.get(guildId));
+                this.idleTimeouts.delete(guildId);
+            }
+            return;
+        }
+
+        if (!this.idleTimeouts.has(guildId)) {
+            this.idleTimeouts.set(guildId, setTimeout(() => {
+                this.idleTimeouts.delete(guildId);
+                this.autoLeave(player, 'idle');
+            }, this.options.idleTimeout * 1000));
+        }
+    }
+
+    /**
+     * Check whether the bot is alone in the voice channel of a player, pauses the player or starts the alone timeout
+     * @param {string} guildId The guild ID
+     * @private
+     */
+    checkAlone(guildId: string) {
+        let player = this.players.get(guildId);
+        if (!player || !this.client.user) return;
+
+        let channel = this.client.getChannel(player.channelId) as VoiceChannel;
+        if (!channel || !channel.voiceMembers) return;
+
+        let alone = !channel.voiceMembers.find(member => !member.bot && member.id !== this.client.user.id);
+        if (alone) {
+            if (this.options.pauseWhenAlone && player.playing && !player.paused && !this.alonePaused.has(guildId)) {
+                this.alonePaused.add(guildId);
+                player.pause();
+                player.emit('alonePause');
+            }
+
+            if (this.options.aloneTimeout && !this.aloneTimeouts.has(guildId)) {
+                this.aloneTimeouts.set(guildId, setTimeout(() => {
+                    this.aloneTimeouts.delete(guildId);
+                    this.autoLeave(player, 'alone');
+                }, this.options.aloneTimeout * 1000));
+            }
+            return;
+        }
+
+        if (this.aloneTimeouts.has(guildId)) {
+            clearTimeout(this.aloneTimeouts.get(guildId));
+            this.aloneTimeouts.delete(guildId);
+        }
+
+        if (this.alonePaused.has(guildId)) {
+            this.alonePaused.delete(guildId);
+            if (player.paused) {
+                player.resume();
+                player.emit('aloneResume');
+            }
+        }
     }
 
     /**
-     * Find the ideal voice node based on load and region
+     * Leave the voice channel of a player unless a listener of the autoLeave event cancels it
+     * @param {Player} player The player
+     * @param {string} reason Either idle or alone
+     * @private
+     */
+    autoLeave(player: Player, reason: 'idle' | 'alone') {
+        if (this.players.get(player.guildId) !== player) return;
+
+        let event: AutoLeaveEvent = {
+            reason,
+            cancelled: false,
+            cancel() {
+                this.cancelled = true;
+            },
+        };
+        player.emit('autoLeave', event);
+
+        if (event.cancelled) {
+            // start over, the alone timeout restarts on the next voice state change
+            if (reason === 'idle') {
+                this.checkIdle(player);
+            }
+            return;
+        }
+
+        this.leave(player.guildId);
+    }
+
+    /**
+     * Cancel the idle and alone timeouts of a guild
+     * @param {string} guildId The guild ID
+     * @private
+     */
+    clearAutoLeave(guildId: string) {
+        if (this.idleTimeouts.has(guildId)) {
+            clearTimeout(this.idleTimeouts.get(guildId));
+            this.idleTimeouts.delete(guildId);
+        }
+        if (this.aloneTimeouts.has(guildId)) {
+            clearTimeout(this.aloneTimeouts.get(guildId));
+            this.aloneTimeouts.delete(guildId);
+        }
+        this.alonePaused.delete(guildId);
+    }
+
+    /**
+     * Save the state of a player through the storage adapter whenever it changes
+     * @param {Player} player The player to persist
+     * @private
+     */
+    persistPlayer(player: Player) {
+        if (!this.options.storage) return;
+
+        player.on('stateChange', () => {
+            if (this.players.get(player.guildId) !== player) return;
+            this.callStorage(storage => storage.set(player.guildId, player.snapshot()));
+        });
+        player.on('disconnect', () => this.deleteSnapshot(player.guildId));
+    }
+
+    /**
+     * Delete the saved state of a player
+     * @param {string} guildId The guild ID
+     * @private
+     */
+    deleteSnapshot(guildId: string) {
+        if (!this.options.storage) return;
+        this.callStorage(storage => storage.delete(guildId));
+    }
+
+    /**
+     * Call the storage adapter, errors are emitted on the client
+     * @param {Function} fn The call to make
+     * @private
+     */
+    callStorage(fn: (storage: StorageAdapter) => void | Promise<void>) {
+        Promise.resolve()
+            .then(() => fn(this.options.storage))
+            .catch(err => this.client.emit('error', err));
+    }
+
+    /**
+     * Restore the players saved through the storage adapter, waits for the shards of the guilds to be ready and for a connected node.
+     * Snapshots are only deleted when their guild is unknown, other failures keep them for the next restore
+     * @returns {Promise<Player[]>} The restored players
+     */
+    async restore(): Promise<Player[]> {
+        if (!this.options.storage) {
+            return [];
+        }
+
+        let storage: StorageAdapter = this.options.storage;
+        let snapshots = await storage.getAll();
+        let players = await Promise.all(snapshots.map(snapshot => this.restoreSnapshot(snapshot).catch(err => {
+            this.client.emit('error', err);
+            if (err instanceof UnknownGuildError) {
+                this.deleteSnapshot(snapshot.guildId);
+            }
+            return null;
+        })));
+
+        return players.filter(player => player);
+    }
+
+    /**
+     * Rejoin the channel of a snapshot and resume its track
+     * @param {PlayerSnapshot} snapshot The saved player state
+     * @private
+     */
+    async restoreSnapshot(snapshot: PlayerSnapshot): Promise<Player> {
+        let { guildId, channelId } = snapshot;
+        if (this.players.has(guildId)) {
+            return this.players.get(guildId);
+        }
+
+        let timeout = this.options.restoreTimeout || 60000;
+        let shard = await this.waitForGuildShard(guildId, timeout);
+        await this.waitForNode(timeout);
+
+        let node = this.nodes.get(snapshot.host);
+        let options = node && node.connected && !node.draining ? { node: node.host } : {};
+
+        let joining = this.join(guildId, channelId, options, null);
+        shard.sendWS(Constants.GatewayOPCodes.VOICE_STATE_UPDATE, {
+            guild_id: guildId,
+            channel_id: channelId,
+            self_mute: false,
+            self_deaf: false,
+        });
+
+        let player = await joining;
+        if (snapshot.queue) {
+            player.queue = player.queue || new Queue();
+            player.queue.tracks = snapshot.queue.tracks;
+            player.queue.history = snapshot.queue.history;
+            player.queue.loop = snapshot.queue.loop;
+        }
+
+        player.paused = snapshot.paused;
+        if (snapshot.track) {
+            player.play(snapshot.track, { startTime: snapshot.position, volume: snapshot.volume, pause: snapshot.paused });
+        } else if (snapshot.volume !== player.volume) {
+            player.setVolume(snapshot.volume);
+        }
+
+        if (snapshot.filters && Object.keys(snapshot.filters).length) {
+            player.setFilters(snapshot.filters);
+        }
+
+        return player;
+    }
+
+    /**
+     * Wait until the shard of a guild is ready
+     * @param {string} guildId The guild ID
+     * @param {number} timeout The time in ms to wait
+     * @private
+     */
+    waitForGuildShard(guildId: string, timeout: number): Promise<Shard> {
+        let guild = this.client.guilds.get(guildId);
+        if (guild && guild.shard.ready) {
+            return Promise.resolve(guild.shard);
+        }
+        if (!guild && this.client.startTime) {
+            return Promise.reject(new UnknownGuildError(guildId));
+        }
+
+        return new Promise((res, rej) => {
+            let shardListener = () => {
+                let guild = this.client.guilds.get(guildId);
+                if (guild && guild.shard.ready) {
+                    cleanup();
+                    res(guild.shard);
+                }
+            };
+            let readyListener = () => {
+                shardListener();
+                if (!this.client.guilds.has(guildId)) {
+                    cleanup();
+                    rej(new UnknownGuildError(guildId));
+                }
+            };
+            let timer = setTimeout(() => {
+                cleanup();
+                rej(new RestoreTimeoutError(guildId, timeout));
+            }, timeout);
+            let cleanup = () => {
+                clearTimeout(timer);
+                this.client.removeListener('shardReady', shardListener);
+                this.client.removeListener('ready', readyListener);
+            };
+
+            this.client.on('shardReady', shardListener);
+            this.client.on('ready', readyListener);
+        });
+    }
+
+    /**
+     * Wait until a node is connected and takes new players
+     * @param {number} timeout The time in ms to wait
+     * @private
+     */
+    waitForNode(timeout: number): Promise<void> {
+        let available = () => Array.from(this.nodes.values()).some(node => node.connected && !node.draining);
+        if (available()) {
+            return Promise.resolve();
+        }
+
+        return new Promise((res, rej) => {
+            let nodes = Array.from(this.nodes.values());
+            let listener = () => {
+                if (available()) {
+                    cleanup();
+                    res();
+                }
+            };
+            let timer = setTimeout(() => {
+                cleanup();
+                rej(new NoNodesAvailableError());
+            }, timeout);
+            let cleanup = () => {
+                clearTimeout(timer);
+                for (let node of nodes) {
+                    node.removeListener('ready', listener);
+                }
+            };
+
+            for (let node of nodes) {
+                node.on('ready', listener);
+            }
+        });
+    }
+
+    /**
+     * Find the ideal voice node based on region, tags, priority and the node selection strategy
      * @param {string} region Guild region
-     * @returns {Lavalink} node Node with the lowest load for a region
+     * @param {Object} [context] Additional selection info
+     * @param {string} [context.guildId] The guild the node is selected for
+     * @param {string[]} [context.tags] Only use nodes that have all of these tags
+     * @param {string[]} [context.exclude] Hostnames of nodes not to use
+     * @returns {Lavalink} node The selected node for a region
      */
-    async findIdealNode(region: string): Promise<Lavalink> {
-        let nodes = [...this.nodes.values()].filter(node => !node.draining && node.ws && node.connected);
+    async findIdealNode(region: string, context?: { guildId?: string, tags?: string[], exclude?: string[] }): Promise<Lavalink> {
+        context = context || {};
+        let nodes = [...this.nodes.values()].filter(node => !node.draining && node.ws && node.connected && node.healthy);
+
+        if (context.exclude && context.exclude.length) {
+            nodes = nodes.filter(node => !context.exclude.includes(node.host));
+        }
+
+        if (context.tags && context.tags.length) {
+            nodes = nodes.filter(node => context.tags.every(tag => node.tags.includes(tag)));
+        }
 
         if (region) {
             let regionalNodes = nodes.filter(node => node.region === region);
@@ -339,20 +1263,90 @@ class PlayerManager {
             }
         }
 
-        nodes = nodes.sort((a, b) => {
-            let aload = a.stats.cpu ? (a.stats.cpu.systemLoad / a.stats.cpu.cores) * 100 : 0,
-                bload = b.stats.cpu ? (b.stats.cpu.systemLoad / b.stats.cpu.cores) * 100 : 0;
-            return aload - bload;
-        });
-        return nodes[0];
+        if (!nodes.length) {
+            return undefined;
+        }
+
+        let priority = Math.max(...nodes.map(node => node.priority));
+        nodes = nodes.filter(node => node.priority === priority);
+
+        return this.nodeSelector(nodes, { region, guildId: context.guildId, tags: context.tags });
+    }
+
+    /**
+     * Load tracks using the ideal node for a region
+     * @param {string} identifier The identifier to load, e.g. a url or `ytsearch:query`
+     * @param {string} [region] Optional region used to pick the node
+     * @returns {Promise<LoadTracksResponse>}
+     */
+    async loadTracks(identifier: string, region?: string): Promise<LoadTracksResponse> {
+        let node = await this.getRestNode(region);
+        return node.loadTracks(identifier);
+    }
+
+    /**
+     * Decode a single base64 track using the ideal node for a region
+     * @param {string} track The base64 track to decode
+     * @param {string} [region] Optional region used to pick the node
+     * @returns {Promise<TrackInfo>}
+     */
+    async decodeTrack(track: string, region?: string): Promise<TrackInfo> {
+        let node = await this.getRestNode(region);
+        return node.decodeTrack(track);
+    }
+
+    /**
+     * Decode several base64 tracks using the ideal node for a region
+     * @param {string[]} tracks The base64 tracks to decode
+     * @param {string} [region] Optional region used to pick the node
+     * @returns {Promise<Track[]>}
+     */
+    async decodeTracks(tracks: string[], region?: string): Promise<Track[]> {
+        let node = await this.getRestNode(region);
+        return node.decodeTracks(tracks);
+    }
+
+    /**
+     * Find a node to use for REST requests
+     * @param {string} [region] Optional region used to pick the node
+     * @private
+     */
+    async getRestNode(region?: string): Promise<Lavalink> {
+        let node = await this.findIdealNode(region ? this.getRegionFromData(region) : null);
+        if (!node) {
+            throw new NoNodesAvailableError(region);
+        }
+        return node;
+    }
+
+    /**
+     * Called by eris when a voice server update is received, ignored when the voice events are handled through rawWS
+     * since eris sets the gateway session instead of the voice session of the bot
+     * @param {VoiceServerUpdate} data The voice server update from eris
+     * @private
+     */
+    async voiceServerUpdate(data: VoiceServerUpdate) : Promise<void> {
+        if (this.rawWSListener) {
+            return;
+        }
+
+        return this.connectVoiceServer(data);
     }
 
     /**
-     * Called by eris when a voice server update is received
-     * @param {*} data The voice server update from eris
+     * Connect the player of a guild with a voice server update
+     * @param {VoiceServerUpdate} data The voice server update with the voice session of the bot
      * @private
      */
-    async voiceServerUpdate(data: any) : Promise<any | undefined> {
+    async connectVoiceServer(data: VoiceServerUpdate) : Promise<void> {
+        let current = this.players.get(data.guild_id);
+        if (current && current.voiceUpdate && !this.pendingGuilds[data.guild_id] &&
+            current.voiceUpdate.sessionId === data.session_id &&
+            current.voiceUpdate.event.token === data.token &&
+            current.voiceUpdate.event.endpoint === data.endpoint) {
+            return;
+        }
+
         if (this.pendingGuilds[data.guild_id] && this.pendingGuilds[data.guild_id].timeout) {
             clearTimeout(this.pendingGuilds[data.guild_id].timeout);
             this.pendingGuilds[data.guild_id].timeout = null;
@@ -367,40 +1361,53 @@ class PlayerManager {
             player = this.pendingGuilds[data.guild_id].player;
 
             if (player) {
-                //player.sessionId = data.session_id;
+                if (player.node !== this.pendingGuilds[data.guild_id].node) {
+                    player.node.discardBuffered(data.guild_id);
+                }
+                // player.sessionId = data.session_id;
                 player.hostname = this.pendingGuilds[data.guild_id].hostname;
                 player.node = this.pendingGuilds[data.guild_id].node;
-                //player.event = data;
+                // player.event = data;
                 this.players.set(data.guild_id, player);
             } else {
                 player = new Player(data.guild_id, {
                     shard: data.shard,
                     guildId: data.guild_id,
-                    //sessionId: data.session_id,
+                    // sessionId: data.session_id,
                     channelId: this.pendingGuilds[data.guild_id].channelId,
                     hostname: this.pendingGuilds[data.guild_id].hostname,
                     node: this.pendingGuilds[data.guild_id].node,
                     options: this.pendingGuilds[data.guild_id].options,
-                    //event: data,
+                    // event: data,
                     manager: this,
+                    queue: this.options.queue,
+                    progressInterval: this.options.progressInterval,
+                    autoplay: this.options.autoplay,
+                    autoplayResolver: this.options.autoplayResolver,
+                    fadeIn: this.options.fadeIn,
+                    fadeOut: this.options.fadeOut,
+                    crossfade: this.options.crossfade,
+                    recovery: this.options.recovery,
+                    commandTimeout: this.options.commandTimeout,
                 });
+                this.persistPlayer(player);
                 this.players.set(data.guild_id, player);
+                this.watchPlayer(player);
             }
         }
 
-        const channelId = player.channelId || this.pendingGuilds[data.guild_id].channelId;
+        const channelId = player.channelId || (this.pendingGuilds[data.guild_id] && this.pendingGuilds[data.guild_id].channelId);
         if (!channelId) {
             if (this.pendingGuilds[data.guild_id]) {
-                delete this.pendingGuilds[data.guild_id];
-                return this.pendingGuilds[data.guild_id].rej(new Error('Invalid Channel ID'));
+                this.pendingGuilds[data.guild_id].rej(new InvalidChannelError(data.guild_id, channelId));
             }
             return;
         }
-        
+
         player.connect({
             sessionId: data.session_id,
             guildId: data.guild_id,
-            //channelId: channelId,
+            // channelId: channelId,
             event: {
                 endpoint: data.endpoint,
                 guild_id: data.guild_id,
@@ -417,8 +1424,7 @@ class PlayerManager {
                 return;
             }
             player.removeListener('ready', readyHandler);
-            this.pendingGuilds[data.guild_id].rej(new Error('Disconnected'));
-            delete this.pendingGuilds[data.guild_id];
+            this.pendingGuilds[data.guild_id].rej(new JoinAbortedError(data.guild_id, 'disconnected'));
         };
 
         let readyHandler = () => {
@@ -431,12 +1437,28 @@ class PlayerManager {
             }
             player.removeListener('disconnect', disconnectHandler);
             this.pendingGuilds[data.guild_id].res(player);
-            delete this.pendingGuilds[data.guild_id];
         };
 
         player.once('ready', readyHandler).once('disconnect', disconnectHandler);
     }
 
+    /**
+     * Get a snapshot of the recorded metrics and the current nodes and players
+     * @returns {MetricsSnapshot}
+     */
+    getMetrics(): MetricsSnapshot {
+        return this.metrics.snapshot(Array.from(this.nodes.values()), Array.from(this.players.values()));
+    }
+
+    /**
+     * Get the metrics in the Prometheus text exposition format
+     * @param {string} [prefix='eris_lavalink'] The prefix of the metric names
+     * @returns {string}
+     */
+    getPrometheusMetrics(prefix?: string): string {
+        return Metrics.toPrometheus(this.getMetrics(), prefix);
+    }
+
     /**
      * Get ideal region from data
      * @param {string} endpoint Endpoint or region
@@ -0,0 +1,177 @@
+/**
+ * The loop mode of a queue
+ */
+export type LoopMode = 'off' | 'track' | 'queue';
+
+/**
+ * Represents a track queue attached to a player
+ * @prop {string[]} tracks The upcoming tracks
+ * @prop {string[]} history The previously played tracks, most recent last
+ * @prop {string} loop The loop mode, one of off, track or queue
+ * @prop {number} historyLimit The maximum amount of tracks kept in the history
+ */
+class Queue {
+    tracks: string[];
+    history: string[];
+    loop: LoopMode;
+    historyLimit: number;
+
+    /**
+     * Queue constructor
+     * @param {Object} [options] Queue options
+     * @param {number} [options.historyLimit=50] The maximum amount of tracks kept in the history
+     */
+    constructor(options?: { historyLimit?: number }) {
+        options = options || {};
+        this.tracks = [];
+        this.history = [];
+        this.loop = 'off';
+        this.historyLimit = options.historyLimit || 50;
+    }
+
+    /**
+     * The amount of upcoming tracks
+     */
+    get length(): number {
+        return this.tracks.length;
+    }
+
+    /**
+     * Add tracks to the end of the queue
+     * @param {...string} tracks The tracks to add
+     * @returns {number} The new length of the queue
+     */
+    enqueue(...tracks: string[]): number {
+        return this.tracks.push(...tracks);
+    }
+
+    /**
+     * Remove and return the first track of the queue
+     * @returns {string} The track or undefined if the queue is empty
+     */
+    dequeue(): string {
+        return this.tracks.shift();
+    }
+
+    /**
+     * Return the first track of the queue without removing it
+     * @returns {string}
+     */
+    peek(): string {
+        return this.tracks[0];
+    }
+
+    /**
+     * Insert a track at a position
+     * @param {number} index The position to insert at
+     * @param {string} track The track to insert
+     * @returns {number} The new length of the queue
+     */
+    insert(index: number, track: string): number {
+        this.tracks.splice(Math.max(0, index), 0, track);
+        return this.tracks.length;
+    }
+
+    /**
+     * Move a track to a new position
+     * @param {number} from The current position of the track
+     * @param {number} to The new position of the track
+     * @returns {boolean} False if there is no track at the current position
+     */
+    move(from: number, to: number): boolean {
+        if (from < 0 || from >= this.tracks.length) {
+            return false;
+        }
+
+        let [track] = this.tracks.splice(from, 1);
+        this.tracks.splice(Math.max(0, to), 0, track);
+        return true;
+    }
+
+    /**
+     * Remove a track at a position
+     * @param {number} index The position of the track
+     * @returns {string} The removed track or undefined
+     */
+    remove(index: number): string {
+        if (index < 0 || index >= this.tracks.length) {
+            return undefined;
+        }
+
+        return this.tracks.splice(index, 1)[0];
+    }
+
+    /**
+     * Shuffle the upcoming tracks
+     * @returns {void}
+     */
+    shuffle(): void {
+        for (let i = this.tracks.length - 1; i > 0; i--) {
+            let j = Math.floor(Math.random() * (i + 1));
+            [this.tracks[i], this.tracks[j]] = [this.tracks[j], this.tracks[i]];
+        }
+    }
+
+    /**
+     * Remove all upcoming tracks
+     * @param {boolean} [history=false] Whether to clear the history too
+     * @returns {void}
+     */
+    clear(history?: boolean): void {
+        this.tracks = [];
+        if (history) {
+            this.history = [];
+        }
+    }
+
+    /**
+     * Get the next track to play after the current one, respecting the loop mode
+     * @param {string} current The track that just finished
+     * @param {boolean} [skip=false] Ignore the track loop mode, used when skipping
+     * @returns {string} The next track or undefined if there is none
+     * @private
+     */
+    next(current: string, skip?: boolean): string {
+        if (current) {
+            if (this.loop === 'track' && !skip) {
+                return current;
+            }
+
+            this.addHistory(current);
+            if (this.loop === 'queue') {
+                this.tracks.push(current);
+            }
+        }
+
+        return this.tracks.shift();
+    }
+
+    /**
+     * Get the previously played track and put the current one back in front of the queue
+     * @param {string} current The track currently playing
+     * @returns {string} The previous track or undefined if there is none
+     * @private
+     */
+    previous(current: string): string {
+        let track = this.history.pop();
+        if (track && current) {
+            this.tracks.unshift(current);
+        }
+
+        return track;
+    }
+
+    /**
+     * Add a track to the history
+     * @param {string} track The played track
+     * @private
+     */
+    addHistory(track: string) {
+        this.history.push(track);
+        if (this.history.length > this.historyLimit) {
+            this.history.splice(0, this.history.length - this.historyLimit);
+        }
+    }
+}
+
+export default Queue;
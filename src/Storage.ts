@@ -0,0 +1,157 @@
+import { promises as fs } from 'fs';
+import { LoopMode } from './Queue';
+import { Filters } from './Protocol';
+
+/**
+ * The persisted state of a player
+ */
+export interface PlayerSnapshot {
+    guildId: string;
+    channelId: string;
+    host: string;
+    track: string;
+    position: number;
+    volume: number;
+    paused: boolean;
+    filters: Filters;
+    queue?: { tracks: string[], history: string[], loop: LoopMode };
+    timestamp: number;
+}
+
+/**
+ * Stores player snapshots, methods may return promises
+ */
+export interface StorageAdapter {
+    get(guildId: string): PlayerSnapshot | Promise<PlayerSnapshot>;
+    set(guildId: string, snapshot: PlayerSnapshot): void | Promise<void>;
+    delete(guildId: string): void | Promise<void>;
+    getAll(): PlayerSnapshot[] | Promise<PlayerSnapshot[]>;
+}
+
+/**
+ * Keeps player snapshots in memory, useful for tests or when the manager is recreated in the same process
+ */
+export class MemoryStorage implements StorageAdapter {
+    snapshots: Map<string, PlayerSnapshot>;
+
+    constructor() {
+        this.snapshots = new Map();
+    }
+
+    get(guildId: string): PlayerSnapshot {
+        return this.snapshots.get(guildId);
+    }
+
+    set(guildId: string, snapshot: PlayerSnapshot): void {
+        this.snapshots.set(guildId, snapshot);
+    }
+
+    delete(guildId: string): void {
+        this.snapshots.delete(guildId);
+    }
+
+    getAll(): PlayerSnapshot[] {
+        return [...this.snapshots.values()];
+    }
+}
+
+/**
+ * Keeps player snapshots in a JSON file, writes are batched
+ * @prop {string} path The path of the JSON file
+ * @prop {number} writeDelay The time in ms changes are batched before writing
+ */
+export class JSONFileStorage implements StorageAdapter {
+    path: string;
+    writeDelay: number;
+    snapshots: { [guildId: string]: PlayerSnapshot };
+    loading: Promise<void>;
+    writeTimeout: NodeJS.Timeout;
+    writing: Promise<void>;
+
+    /**
+     * JSONFileStorage constructor
+     * @param {string} path The path of the JSON file
+     * @param {Object} [options] Storage options
+     * @param {number} [options.writeDelay=1000] The time in ms changes are batched before writing
+     */
+    constructor(path: string, options?: { writeDelay?: number }) {
+        options = options || {};
+        this.path = path;
+        this.writeDelay = options.writeDelay !== undefined ? options.writeDelay : 1000;
+        this.snapshots = null;
+        this.loading = null;
+        this.writeTimeout = null;
+        this.writing = Promise.resolve();
+    }
+
+    /**
+     * Load the file once
+     * @private
+     */
+    load(): Promise<void> {
+        if (!this.loading) {
+            this.loading = fs.readFile(this.path, 'utf8')
+                .then(data => {
+                    this.snapshots = JSON.parse(data);
+                })
+                .catch(err => {
+                    if (err.code !== 'ENOENT') throw err;
+                    this.snapshots = {};
+                });
+        }
+
+        return this.loading;
+    }
+
+    async get(guildId: string): Promise<PlayerSnapshot> {
+        await this.load();
+        return this.snapshots[guildId];
+    }
+
+    async set(guildId: string, snapshot: PlayerSnapshot): Promise<void> {
+        await this.load();
+        this.snapshots[guildId] = snapshot;
+        this.scheduleWrite();
+    }
+
+    async delete(guildId: string): Promise<void> {
+        await this.load();
+        delete this.snapshots[guildId];
+        this.scheduleWrite();
+    }
+
+    async getAll(): Promise<PlayerSnapshot[]> {
+        await this.load();
+        return Object.values(this.snapshots);
+    }
+
+    /**
+     * Write any pending changes now
+     * @returns {Promise<void>}
+     */
+    flush(): Promise<void> {
+        if (this.writeTimeout) {
+            clearTimeout(this.writeTimeout);
+            this.writeTimeout = null;
+        }
+
+        let data = JSON.stringify(this.snapshots || {});
+        this.writing = this.writing
+            .catch(() => undefined)
+            .then(() => fs.writeFile(`${this.path}.tmp`, data))
+            .then(() => fs.rename(`${this.path}.tmp`, this.path));
+        return this.writing;
+    }
+
+    /**
+     * Write the file after the write delay
+     * @private
+     */
+    scheduleWrite() {
+        if (this.writeTimeout) return;
+        this.writeTimeout = setTimeout(() => {
+            this.writeTimeout = null;
+            this.flush().catch(() => undefined);
+        }, this.writeDelay);
+    }
+}
@@ -0,0 +1,234 @@
+import { TrackInfo } from './Lavalink';
+
+/**
+ * Information decoded locally from a base64 track
+ */
+export interface DecodedTrackInfo extends TrackInfo {
+    sourceName: string;
+    version: number;
+    artworkUrl?: string;
+    isrc?: string;
+}
+
+const TRACK_INFO_VERSIONED = 1;
+
+/**
+ * Reads the fields of a lavaplayer message
+ * @private
+ */
+class TrackReader {
+    buffer: Buffer;
+    offset: number;
+
+    constructor(buffer: Buffer, offset: number) {
+        this.buffer = buffer;
+        this.offset = offset;
+    }
+
+    readByte(): number {
+        return this.buffer.readUInt8(this.offset++);
+    }
+
+    readBoolean(): boolean {
+        return this.readByte() !== 0;
+    }
+
+    readUnsignedShort(): number {
+        let value = this.buffer.readUInt16BE(this.offset);
+        this.offset += 2;
+        return value;
+    }
+
+    readLong(): number {
+        let high = this.buffer.readInt32BE(this.offset),
+            low = this.buffer.readUInt32BE(this.offset + 4);
+        this.offset += 8;
+        return (high * 4294967296) + low;
+    }
+
+    readUTF(): string {
+        let length = this.readUnsignedShort(),
+            end = this.offset + length,
+            chars: number[] = [];
+
+        if (end > this.buffer.length) {
+            throw new RangeError('Track string is out of bounds');
+        }
+
+        // Java modified UTF-8, supplementary characters are encoded as two surrogates
+        while (this.offset < end) {
+            let a = this.readByte();
+            if (a < 0x80) {
+                chars.push(a);
+            } else if ((a & 0xe0) === 0xc0) {
+                let b = this.readByte();
+                chars.push(((a & 0x1f) << 6) | (b & 0x3f));
+            } else {
+                let b = this.readByte(),
+                    c = this.readByte();
+                chars.push(((a & 0x0f) << 12) | ((b & 0x3f) << 6) | (c & 0x3f));
+            }
+        }
+
+        return String.fromCharCode(...chars);
+    }
+
+    readNullableUTF(): string {
+        return this.readBoolean() ? this.readUTF() : null;
+    }
+}
+
+/**
+ * Writes the fields of a lavaplayer message
+ * @private
+ */
+class TrackWriter {
+    chunks: Buffer[];
+
+    constructor() {
+        this.chunks = [];
+    }
+
+    writeByte(value: number) {
+        let buffer = Buffer.alloc(1);
+        buffer.writeUInt8(value, 0);
+        this.chunks.push(buffer);
+    }
+
+    writeBoolean(value: boolean) {
+        this.writeByte(value ? 1 : 0);
+    }
+
+    writeLong(value: number) {
+        let buffer = Buffer.alloc(8);
+        buffer.writeInt32BE(Math.floor(value / 4294967296), 0);
+        buffer.writeUInt32BE(value >>> 0, 4);
+        this.chunks.push(buffer);
+    }
+
+    writeUTF(value: string) {
+        let bytes: number[] = [];
+        for (let i = 0; i < value.length; i++) {
+            let c = value.charCodeAt(i);
+            if (c >= 0x01 && c < 0x80) {
+                bytes.push(c);
+            } else if (c < 0x800) {
+                bytes.push(0xc0 | (c >> 6), 0x80 | (c & 0x3f));
+            } else {
+                bytes.push(0xe0 | (c >> 12), 0x80 | ((c >> 6) & 0x3f), 0x80 | (c & 0x3f));
+            }
+        }
+
+        if (bytes.length > 65535) {
+            throw new RangeError('Track string is too long');
+        }
+
+        let length = Buffer.alloc(2);
+        length.writeUInt16BE(bytes.length, 0);
+        this.chunks.push(length, Buffer.from(bytes));
+    }
+
+    writeNullableUTF(value: string) {
+        this.writeBoolean(value !== null && value !== undefined);
+        if (value !== null && value !== undefined) {
+            this.writeUTF(value);
+        }
+    }
+
+    toBuffer(): Buffer {
+        return Buffer.concat(this.chunks);
+    }
+}
+
+/**
+ * Decode a base64 Lavalink track without a request to the node
+ * @param {string} track The base64 track
+ * @returns {DecodedTrackInfo}
+ * @throws {RangeError} If the track is malformed
+ */
+export function decodeTrack(track: string): DecodedTrackInfo {
+    let buffer = Buffer.from(track, 'base64');
+    if (buffer.length < 4) {
+        throw new RangeError('Track is too short');
+    }
+
+    let header = buffer.readInt32BE(0),
+        flags = (header & 0xc0000000) >>> 30,
+        size = header & 0x3fffffff;
+
+    if (size + 4 > buffer.length) {
+        throw new RangeError('Track message size is out of bounds');
+    }
+
+    let reader = new TrackReader(buffer.slice(0, size + 4), 4);
+    let version = flags & TRACK_INFO_VERSIONED ? reader.readByte() : 1;
+
+    let title = reader.readUTF(),
+        author = reader.readUTF(),
+        length = reader.readLong(),
+        identifier = reader.readUTF(),
+        isStream = reader.readBoolean(),
+        uri = version >= 2 ? reader.readNullableUTF() : null,
+        artworkUrl = version >= 3 ? reader.readNullableUTF() : undefined,
+        isrc = version >= 3 ? reader.readNullableUTF() : undefined,
+        sourceName = reader.readUTF();
+
+    // source specific fields may follow, the position is always the last field
+    reader.offset = size + 4 - 8;
+    let position = reader.readLong();
+
+    let info: DecodedTrackInfo = {
+        title,
+        author,
+        length,
+        identifier,
+        isStream,
+        isSeekable: !isStream,
+        uri,
+        sourceName,
+        position,
+        version,
+    };
+
+    if (version >= 3) {
+        info.artworkUrl = artworkUrl;
+        info.isrc = isrc;
+    }
+
+    return info;
+}
+
+/**
+ * Encode track info into a base64 Lavalink track, sources that store extra fields (e.g. http) are not supported
+ * @param {Object} info The track info
+ * @param {number} [version=2] The track format version, 1 has no uri and 3 adds artworkUrl and isrc
+ * @returns {string}
+ */
+export function encodeTrack(info: { title: string, author: string, length: number, identifier: string, isStream: boolean, uri?: string, sourceName: string, position?: number, artworkUrl?: string, isrc?: string }, version?: number): string {
+    version = version || 2;
+
+    let writer = new TrackWriter();
+    if (version > 1) {
+        writer.writeByte(version);
+    }
+    writer.writeUTF(info.title);
+    writer.writeUTF(info.author);
+    writer.writeLong(info.length);
+    writer.writeUTF(info.identifier);
+    writer.writeBoolean(info.isStream);
+    if (version >= 2) {
+        writer.writeNullableUTF(info.uri);
+    }
+    if (version >= 3) {
+        writer.writeNullableUTF(info.artworkUrl);
+        writer.writeNullableUTF(info.isrc);
+    }
+    writer.writeUTF(info.sourceName);
+    writer.writeLong(info.position || 0);
+
+    let body = writer.toBuffer(),
+        header = Buffer.alloc(4);
+    header.writeInt32BE(((version > 1 ? TRACK_INFO_VERSIONED : 0) << 30) | body.length, 0);
+
+    return Buffer.concat([header, body]).toString('base64');
+}
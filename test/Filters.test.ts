@@ -0,0 +1,42 @@
+import assert from "assert";
+import { composeFilters, validateFilters } from "../src/Filters";
+
+describe('Filters', () => {
+    it('accepts filters within the allowed ranges', () => {
+        validateFilters({
+            timescale: { speed: 0.5, pitch: 2, rate: 1 },
+            tremolo: { frequency: 0.1, depth: 0.5 },
+            vibrato: { frequency: 14, depth: 1 },
+        });
+    });
+
+    it('rejects a timescale speed of 0', () => {
+        assert.throws(() => validateFilters({ timescale: { speed: 0 } }), RangeError);
+    });
+
+    it('rejects a timescale pitch of 0', () => {
+        assert.throws(() => validateFilters({ timescale: { pitch: 0 } }), RangeError);
+    });
+
+    it('rejects a timescale rate of 0', () => {
+        assert.throws(() => validateFilters({ timescale: { rate: 0 } }), RangeError);
+    });
+
+    it('rejects a tremolo frequency of 0', () => {
+        assert.throws(() => validateFilters({ tremolo: { frequency: 0 } }), RangeError);
+    });
+
+    it('rejects a vibrato frequency of 0', () => {
+        assert.throws(() => validateFilters({ vibrato: { frequency: 0 } }), RangeError);
+    });
+
+    it('rejects a vibrato frequency above 14', () => {
+        assert.throws(() => validateFilters({ vibrato: { frequency: 14.5 } }), RangeError);
+    });
+
+    it('removes the equalizer when composed with null', () => {
+        let filters = composeFilters({ equalizer: [{ band: 0, gain: 0.1 }], timescale: { speed: 1.5 } }, { equalizer: null });
+        assert.strictEqual(filters.equalizer, null);
+        assert.deepStrictEqual(filters.timescale, { speed: 1.5 });
+    });
+});
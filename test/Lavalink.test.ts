@@ -0,0 +1,285 @@
+import assert from "assert";
+import http from "http";
+import { AddressInfo } from "net";
+import Lavalink from "../src/Lavalink";
+import MockLavalink from "../src/MockLavalink";
+import { decodeTrack } from "../src/TrackCodec";
+import { connectNode, FIXTURE_TRACK, USER_ID, waitFor } from "./helpers";
+
+describe('Lavalink', () => {
+    let server: MockLavalink,
+        node: Lavalink;
+
+    beforeEach(async () => {
+        server = new MockLavalink();
+        await server.start();
+    });
+
+    afterEach(async () => {
+        if (node) {
+            node.destroy();
+            node = null;
+        }
+        await server.close();
+    });
+
+    it('connects with the auth headers', async () => {
+        node = await connectNode(server, { clientName: 'tests', headers: { 'X-Test': 'yes' } });
+
+        assert.strictEqual(node.connected, true);
+        let headers = server.handshakes[0];
+        assert.strictEqual(headers.authorization, server.password);
+        assert.strictEqual(headers['user-id'], USER_ID);
+        assert.strictEqual(headers['num-shards'], '1');
+        assert.strictEqual(headers['client-name'], 'tests');
+        assert.strictEqual(headers['x-test'], 'yes');
+    });
+
+    it('connects through a path prefix', async () => {
+        await server.close();
+        server = new MockLavalink({ path: 'lavalink' });
+        await server.start();
+
+        node = await connectNode(server, { path: '/lavalink/' });
+        assert.strictEqual(node.connected, true);
+    });
+
+    it('is rejected with a wrong password', async () => {
+        node = new Lavalink({ host: '127.0.0.1', port: server.port, region: 'us', numShards: 1, userId: USER_ID, password: 'wrong', heartbeat: { interval: 0 } });
+
+        let [err] = await waitFor(node, 'error');
+        assert.ok(/401/.test(err.message));
+        assert.strictEqual(server.connections.size, 0);
+    });
+
+    it('sends ops to the server', async () => {
+        node = await connectNode(server);
+
+        node.send({ op: 'pause', guildId: '1', pause: true });
+        let payload = await server.waitForOp('pause');
+        assert.deepStrictEqual(payload, { op: 'pause', guildId: '1', pause: true });
+    });
+
+    it('updates the stats', async () => {
+        node = await connectNode(server);
+
+        server.sendStats({ players: 3, playingPlayers: 2 });
+        await waitFor(node, 'message');
+        assert.strictEqual(node.stats.players, 3);
+        assert.strictEqual(node.stats.playingPlayers, 2);
+    });
+
+    it('warns about malformed messages', async () => {
+        node = await connectNode(server);
+
+        server.send({ op: 'playerUpdate' });
+        let [message] = await waitFor(node, 'warn');
+        assert.ok(message.startsWith('Malformed ws message'));
+    });
+
+    it('reconnects after a disconnect', async () => {
+        node = await connectNode(server, { reconnect: { baseDelay: 10 } });
+
+        let reconnecting = waitFor(node, 'reconnecting');
+        server.disconnect();
+        let [attempt] = await reconnecting;
+        assert.strictEqual(attempt, 1);
+
+        await waitFor(node, 'ready');
+        assert.strictEqual(node.connected, true);
+        assert.strictEqual(server.handshakes.length, 2);
+    });
+
+    it('gives up after the max attempts', async () => {
+        node = await connectNode(server, { reconnect: { baseDelay: 10, maxAttempts: 1 } });
+        node.on('error', () => undefined);
+        await server.close();
+
+        await waitFor(node, 'dead');
+        assert.strictEqual(node.dead, true);
+
+        server = new MockLavalink();
+        await server.start();
+    });
+
+    it('buffers commands while reconnecting', async () => {
+        node = await connectNode(server, { reconnect: { baseDelay: 50 } });
+
+        let disconnected = waitFor(node, 'disconnect');
+        server.disconnect();
+        await disconnected;
+
+        node.send({ op: 'volume', guildId: '1', volume: 10 });
+        node.send({ op: 'pause', guildId: '1', pause: true });
+        node.send({ op: 'seek', guildId: '1', position: 1000 });
+        node.send({ op: 'volume', guildId: '2', volume: 30 });
+        node.send({ op: 'volume', guildId: '1', volume: 20 });
+        node.send({ op: 'seek', guildId: '1', position: 2000 });
+        assert.strictEqual(node.buffer.length, 4);
+
+        let received = server.received.length;
+        await waitFor(node, 'ready');
+        await server.waitForOp('seek');
+        assert.deepStrictEqual(server.received.slice(received), [
+            { op: 'pause', guildId: '1', pause: true },
+            { op: 'volume', guildId: '2', volume: 30 },
+            { op: 'volume', guildId: '1', volume: 20 },
+            { op: 'seek', guildId: '1', position: 2000 },
+        ]);
+    });
+
+    it('drops overflowing and expired commands', async () => {
+        node = await connectNode(server, { buffer: { size: 2, ttl: 20 }, reconnect: { baseDelay: 1000 } });
+        let dropped: [string, string][] = [];
+        node.on('dropped', (payload, reason) => dropped.push([payload.op, reason]));
+
+        let disconnected = waitFor(node, 'disconnect');
+        server.disconnect();
+        await disconnected;
+
+        node.send({ op: 'pause', guildId: '1', pause: true });
+        node.send({ op: 'stop', guildId: '1' });
+        node.send({ op: 'destroy', guildId: '1' });
+        assert.deepStrictEqual(dropped, [['pause', 'overflow']]);
+
+        await new Promise(res => setTimeout(res, 30));
+        assert.deepStrictEqual(dropped, [['pause', 'overflow'], ['stop', 'expired'], ['destroy', 'expired']]);
+        assert.strictEqual(node.buffer.length, 0);
+
+        node.send({ op: 'pause', guildId: '2', pause: false });
+        assert.strictEqual(node.buffer.length, 1);
+    });
+
+    it('resumes the session with a resume key', async () => {
+        node = await connectNode(server, { resumeKey: 'key', resumeTimeout: 30, reconnect: { baseDelay: 10 } });
+        assert.deepStrictEqual(await server.waitForOp('configureResuming'), { op: 'configureResuming', key: 'key', timeout: 30 });
+        assert.strictEqual(node.resumed, false);
+
+        server.disconnect();
+        await waitFor(node, 'ready');
+        assert.strictEqual(node.resumed, true);
+        assert.strictEqual(server.handshakes[1]['resume-key'], 'key');
+    });
+
+    it('loads tracks through the REST api', async () => {
+        node = await connectNode(server);
+        server.addTracks('ytsearch:rick', [{ track: FIXTURE_TRACK, info: decodeTrack(FIXTURE_TRACK) }]);
+
+        let result = await node.loadTracks('ytsearch:rick');
+        assert.strictEqual(result.loadType, 'TRACK_LOADED');
+        assert.strictEqual(result.tracks[0].track, FIXTURE_TRACK);
+        assert.strictEqual(server.requests.find(request => request.path.startsWith('/loadtracks')).headers.authorization, server.password);
+
+        let empty = await node.loadTracks('ytsearch:nothing');
+        assert.strictEqual(empty.loadType, 'NO_MATCHES');
+    });
+
+    it('decodes tracks through the REST api', async () => {
+        node = await connectNode(server);
+
+        let info = await node.decodeTrack(FIXTURE_TRACK);
+        assert.strictEqual(info.identifier, 'dQw4w9WgXcQ');
+
+        let tracks = await node.decodeTracks([FIXTURE_TRACK]);
+        assert.strictEqual(tracks[0].info.title, 'Rick Astley - Never Gonna Give You Up');
+        assert.deepStrictEqual(server.requests.find(request => request.method === 'POST').body, [FIXTURE_TRACK]);
+    });
+
+    it('detects the version of the node once', async () => {
+        node = await connectNode(server, { reconnect: { baseDelay: 10 } });
+
+        assert.strictEqual(node.version, 3);
+        assert.strictEqual(node.sessionId, null);
+        assert.strictEqual(server.requests[0].path, '/version');
+
+        server.disconnect();
+        await waitFor(node, 'ready');
+        assert.strictEqual(server.requests.filter(request => request.path === '/version').length, 1);
+    });
+
+    it('aborts REST requests after the request timeout', async () => {
+        let stalled = http.createServer(() => undefined);
+        await new Promise(res => stalled.listen(0, res));
+
+        try {
+            node = new Lavalink({
+                host: '127.0.0.1',
+                port: (stalled.address() as AddressInfo).port,
+                region: 'us',
+                numShards: 1,
+                userId: USER_ID,
+                password: server.password,
+                version: 3,
+                requestTimeout: 50,
+                reconnect: { baseDelay: 60000 },
+                heartbeat: { interval: 0 },
+            });
+            node.on('error', () => undefined);
+
+            await assert.rejects(node.loadTracks('ytsearch:rick'), /timed out after 50ms/);
+        } finally {
+            stalled.close();
+        }
+    });
+
+    describe('v4', () => {
+        beforeEach(async () => {
+            await server.close();
+            server = new MockLavalink({ version: 4 });
+            await server.start();
+        });
+
+        it('connects with the session of the ready op', async () => {
+            node = await connectNode(server);
+
+            assert.strictEqual(node.version, 4);
+            assert.strictEqual(node.sessionId, 'session1');
+            assert.strictEqual(node.connected, true);
+        });
+
+        it('sends ops as player updates', async () => {
+            node = await connectNode(server);
+
+            let play = server.waitForRequest('PATCH', '/v4/sessions/session1/players/1?noReplace=true');
+            node.send({ op: 'play', guildId: '1', track: FIXTURE_TRACK, startTime: 1000, noReplace: true });
+            node.send({ op: 'pause', guildId: '1', pause: true });
+            assert.deepStrictEqual((await play).body, { encodedTrack: FIXTURE_TRACK, position: 1000 });
+
+            let destroy = server.waitForRequest('DELETE', '/v4/sessions/session1/players/1');
+            node.send({ op: 'destroy', guildId: '1' });
+            await destroy;
+
+            let updates = server.requests.filter(request => request.method === 'PATCH').map(request => request.body);
+            assert.deepStrictEqual(updates, [{ encodedTrack: FIXTURE_TRACK, position: 1000 }, { paused: true }]);
+        });
+
+        it('converts events and REST responses to the legacy shape', async () => {
+            node = await connectNode(server);
+            server.addTracks('ytsearch:rick', [{ track: FIXTURE_TRACK, info: null }]);
+
+            server.sendTrackEnd('1', FIXTURE_TRACK, 'LOAD_FAILED');
+            let [message] = await waitFor(node, 'message');
+            assert.deepStrictEqual(message, { op: 'event', type: 'TrackEndEvent', guildId: '1', track: FIXTURE_TRACK, reason: 'LOAD_FAILED' });
+
+            let result = await node.loadTracks('ytsearch:rick');
+            assert.strictEqual(result.loadType, 'TRACK_LOADED');
+            assert.strictEqual(result.tracks[0].track, FIXTURE_TRACK);
+            assert.strictEqual(result.tracks[0].info.identifier, 'dQw4w9WgXcQ');
+
+            let tracks = await node.decodeTracks([FIXTURE_TRACK]);
+            assert.strictEqual(tracks[0].track, FIXTURE_TRACK);
+        });
+
+        it('resumes the session with the session ID', async () => {
+            node = await connectNode(server, { resumeKey: 'key', resumeTimeout: 30, reconnect: { baseDelay: 10 } });
+            let resuming = await server.waitForRequest('PATCH', '/v4/sessions/session1');
+            assert.deepStrictEqual(resuming.body, { resuming: true, timeout: 30 });
+
+            server.disconnect();
+            await waitFor(node, 'ready');
+            assert.strictEqual(node.resumed, true);
+            assert.strictEqual(node.sessionId, 'session1');
+            assert.strictEqual(server.handshakes[1]['session-id'], 'session1');
+        });
+    });
+});
@@ -0,0 +1,292 @@
+import assert from "assert";
+import { CommandTimeoutError, PlaybackError } from "../src/Errors";
+import MockLavalink from "../src/MockLavalink";
+import Player from "../src/Player";
+import PlayerManager from "../src/PlayerManager";
+import { createRecoveryPolicy } from "../src/Recovery";
+import { createManager, destroyManager, GUILD_ID, join, track, waitFor } from "./helpers";
+
+describe('Player', () => {
+    let server: MockLavalink,
+        manager: PlayerManager,
+        player: Player;
+
+    beforeEach(async () => {
+        server = new MockLavalink();
+        await server.start();
+        manager = await createManager([server], { queue: true });
+        player = await join(manager);
+    });
+
+    afterEach(async () => {
+        destroyManager(manager);
+        await server.close();
+    });
+
+    it('plays a track', async () => {
+        player.play(track('a'), { startTime: 1000, volume: 50 });
+
+        let payload = await server.waitForOp('play');
+        assert.deepStrictEqual(payload, { op: 'play', guildId: GUILD_ID, track: track('a'), startTime: 1000, volume: 50 });
+        assert.strictEqual(player.playing, true);
+        assert.strictEqual(player.volume, 50);
+        assert.ok(player.position >= 1000);
+        assert.strictEqual(player.currentTrackInfo.identifier, 'a');
+    });
+
+    it('resolves play when Lavalink starts the track', async () => {
+        let playing = player.play(track('a'));
+        await server.waitForOp('play');
+
+        server.sendTrackStart(GUILD_ID, track('a'));
+        let event = await playing;
+        assert.strictEqual(event.type, 'TrackStartEvent');
+        assert.strictEqual(event.track, track('a'));
+    });
+
+    it('rejects play when the track fails, is replaced or times out', async () => {
+        player.on('error', () => undefined);
+
+        let failed = player.play(track('a'));
+        server.sendTrackException(GUILD_ID, track('a'), 'This video is unavailable', 'COMMON');
+        await assert.rejects(failed, (err: PlaybackError) => err instanceof PlaybackError && err.message === 'This video is unavailable' && err.event.type === 'TrackExceptionEvent');
+
+        let replaced = player.play(track('a'));
+        player.play(track('b'));
+        server.sendTrackStart(GUILD_ID, track('b'));
+        await assert.rejects(replaced, PlaybackError);
+
+        player.commandTimeout = 20;
+        await assert.rejects(player.play(track('c')), CommandTimeoutError);
+    });
+
+    it('resolves seek on a player update near the new position', async () => {
+        player.play(track('a'));
+
+        let seeked = false,
+            seeking = player.seek(30000).then(() => seeked = true);
+        server.sendPlayerUpdate(GUILD_ID, { time: Date.now(), position: 5000 });
+        await waitFor(player, 'stateChange');
+        await new Promise(res => setImmediate(res));
+        assert.strictEqual(seeked, false);
+
+        server.sendPlayerUpdate(GUILD_ID, { time: Date.now(), position: 30000 });
+        await seeking;
+    });
+
+    it('resolves seek once sent while paused', async () => {
+        player.play(track('a'));
+        player.pause({ fade: 0 });
+        await server.waitForOp('pause');
+
+        let update = await player.seek(30000);
+        assert.strictEqual(update.state.position, 30000);
+        assert.deepStrictEqual(await server.waitForOp('seek'), { op: 'seek', guildId: GUILD_ID, position: 30000 });
+    });
+
+    it('pauses and seeks', async () => {
+        player.play(track('a'));
+        player.pause();
+        assert.deepStrictEqual(await server.waitForOp('pause'), { op: 'pause', guildId: GUILD_ID, pause: true });
+        assert.strictEqual(player.paused, true);
+
+        player.seek(30000);
+        assert.deepStrictEqual(await server.waitForOp('seek'), { op: 'seek', guildId: GUILD_ID, position: 30000 });
+        assert.strictEqual(player.position, 30000);
+
+        player.resume();
+        assert.deepStrictEqual(await server.waitForOp('pause'), { op: 'pause', guildId: GUILD_ID, pause: false });
+    });
+
+    it('follows the player updates', async () => {
+        player.play(track('a'));
+        server.sendPlayerUpdate(GUILD_ID, { time: Date.now(), position: 5000 });
+
+        await waitFor(player, 'stateChange');
+        assert.ok(player.position >= 5000 && player.position < 6000);
+    });
+
+    it('interpolates the position from the local receipt time', async () => {
+        player.play(track('a'));
+        server.sendPlayerUpdate(GUILD_ID, { time: Date.now() - 60000, position: 5000 });
+
+        await waitFor(player, 'stateChange');
+        assert.ok(player.position >= 5000 && player.position < 6000);
+    });
+
+    it('composes and validates filters', async () => {
+        player.setTimescale({ speed: 1.5 });
+        player.setEqualizer([0.1, 0.2]);
+
+        let payload = await server.waitForOp('filters', filters => !!filters.equalizer);
+        assert.deepStrictEqual(payload.timescale, { speed: 1.5 });
+        assert.deepStrictEqual(payload.equalizer, [{ band: 0, gain: 0.1 }, { band: 1, gain: 0.2 }]);
+
+        assert.throws(() => player.setFilterVolume(10), RangeError);
+    });
+
+    it('removes the equalizer with a null value', async () => {
+        player.setEqualizer([0.1, 0.2]);
+        await server.waitForOp('filters', filters => !!filters.equalizer);
+
+        player.updateFilters({ equalizer: null });
+        let payload = await server.waitForOp('filters', filters => !filters.equalizer);
+        assert.deepStrictEqual(payload, { op: 'filters', guildId: GUILD_ID });
+        assert.deepStrictEqual(player.getFilters(), {});
+    });
+
+    it('plays the next queued track when a track finishes', async () => {
+        player.queue.enqueue(track('b'));
+        player.play(track('a'));
+        await server.waitForOp('play');
+
+        let trackStart = waitFor(player, 'trackStart'),
+            play = server.waitForOp('play');
+        server.sendTrackEnd(GUILD_ID, track('a'), 'FINISHED');
+
+        let [started] = await trackStart;
+        assert.strictEqual(started, track('b'));
+        assert.strictEqual((await play).track, track('b'));
+
+        let queueEnd = waitFor(player, 'queueEnd');
+        server.sendTrackEnd(GUILD_ID, track('b'), 'FINISHED');
+        await queueEnd;
+        assert.strictEqual(player.track, null);
+    });
+
+    it('does not advance the queue when a track is replaced', async () => {
+        player.queue.enqueue(track('b'));
+        player.play(track('a'));
+
+        server.sendTrackEnd(GUILD_ID, track('a'), 'REPLACED');
+        await waitFor(player, 'end');
+        assert.strictEqual(player.track, track('a'));
+        assert.strictEqual(player.queue.length, 1);
+    });
+
+    it('emits start when Lavalink starts a track', async () => {
+        player.play(track('a'));
+
+        server.sendTrackStart(GUILD_ID, track('a'));
+        let [started] = await waitFor(player, 'start');
+        assert.strictEqual(started, track('a'));
+    });
+
+    it('emits track exceptions and stuck tracks', async () => {
+        player.play(track('a'));
+
+        server.sendTrackException(GUILD_ID, track('a'), 'Something broke');
+        let [exception] = await waitFor(player, 'error');
+        assert.strictEqual(exception.error, 'Something broke');
+
+        let stop = server.waitForOp('stop');
+        server.sendTrackStuck(GUILD_ID, track('a'), 5000);
+        let [stuck] = await waitFor(player, 'end');
+        assert.strictEqual(stuck.type, 'TrackStuckEvent');
+        assert.deepStrictEqual(await stop, { op: 'stop', guildId: GUILD_ID });
+    });
+
+    it('retries stuck tracks from their position', async () => {
+        player.recovery = createRecoveryPolicy({ maxRetries: 1 });
+        player.queue.enqueue(track('b'));
+        player.play(track('a'));
+        await server.waitForOp('play');
+        server.sendPlayerUpdate(GUILD_ID, { time: Date.now(), position: 5000 });
+        await waitFor(player, 'stateChange');
+
+        let retry = server.waitForOp('play');
+        server.sendTrackStuck(GUILD_ID, track('a'));
+        let [event] = await waitFor(player, 'recovery');
+        assert.deepStrictEqual([event.cause, event.action, event.attempt], ['stuck', 'retry', 1]);
+        let payload = await retry;
+        assert.strictEqual(payload.track, track('a'));
+        assert.ok(payload.startTime >= 5000);
+
+        let skip = server.waitForOp('play');
+        server.sendTrackStuck(GUILD_ID, track('a'));
+        [event] = await waitFor(player, 'recovery');
+        assert.strictEqual(event.action, 'skip');
+        assert.strictEqual((await skip).track, track('b'));
+    });
+
+    it('recovers failed tracks depending on the severity', async () => {
+        player.recovery = createRecoveryPolicy({ fallback: 'stop' });
+        player.on('error', () => undefined);
+        player.play(track('a'));
+        await server.waitForOp('play');
+
+        let retry = server.waitForOp('play');
+        server.sendTrackException(GUILD_ID, track('a'), 'Connection reset', 'COMMON');
+        server.sendTrackEnd(GUILD_ID, track('a'), 'LOAD_FAILED');
+        let [event] = await waitFor(player, 'recovery');
+        assert.deepStrictEqual([event.cause, event.severity, event.action], ['exception', 'COMMON', 'retry']);
+        assert.strictEqual((await retry).track, track('a'));
+        assert.strictEqual(player.track, track('a'));
+
+        // there is no other node to switch to
+        let stop = server.waitForOp('stop');
+        server.sendTrackException(GUILD_ID, track('a'), 'Unknown error', 'SUSPICIOUS');
+        server.sendTrackEnd(GUILD_ID, track('a'), 'LOAD_FAILED');
+        [event] = await waitFor(player, 'recovery');
+        assert.deepStrictEqual([event.severity, event.action], ['SUSPICIOUS', 'stop']);
+        await stop;
+        assert.strictEqual(player.track, null);
+    });
+
+    it('recovers streams that fail mid-play', async () => {
+        player.recovery = createRecoveryPolicy({ maxRetries: 1, fallback: 'skip' });
+        player.on('error', () => undefined);
+        player.queue.enqueue(track('b'));
+        player.play(track('a'));
+        await server.waitForOp('play');
+
+        let retry = server.waitForOp('play');
+        server.sendTrackException(GUILD_ID, track('a'), 'Connection reset', 'COMMON');
+        server.sendTrackEnd(GUILD_ID, track('a'), 'FINISHED');
+        let [event] = await waitFor(player, 'recovery');
+        assert.deepStrictEqual([event.cause, event.action, event.attempt], ['exception', 'retry', 1]);
+        assert.strictEqual((await retry).track, track('a'));
+        assert.strictEqual(player.queue.length, 1);
+
+        let skip = server.waitForOp('play');
+        server.sendTrackException(GUILD_ID, track('a'), 'Connection reset', 'COMMON');
+        server.sendTrackEnd(GUILD_ID, track('a'), 'FINISHED');
+        [event] = await waitFor(player, 'recovery');
+        assert.strictEqual(event.action, 'skip');
+        assert.strictEqual((await skip).track, track('b'));
+    });
+
+    it('fades the volume', async () => {
+        let volumes: number[] = [];
+        server.on('op', payload => payload.op === 'volume' && volumes.push(payload.volume));
+
+        assert.strictEqual(await player.fadeTo(50, 300), true);
+        assert.strictEqual(player.volume, 50);
+        await server.waitForOp('volume', payload => payload.volume === 50);
+        assert.ok(volumes.length > 1);
+        assert.deepStrictEqual([...volumes].sort((a, b) => b - a), volumes);
+
+        let fade = player.fadeTo(100, 300);
+        player.setVolume(80);
+        assert.strictEqual(await fade, false);
+        assert.throws(() => player.fadeTo(2000, 100), RangeError);
+    });
+
+    it('fades in new tracks and fades out before stopping', async () => {
+        player.fadeIn = 200;
+        player.fadeOut = 200;
+
+        let play = server.waitForOp('play');
+        player.play(track('a'));
+        assert.strictEqual((await play).volume, 0);
+        await server.waitForOp('volume', payload => payload.volume === 100);
+
+        let faded = server.waitForOp('volume', payload => payload.volume === 0),
+            stop = server.waitForOp('stop'),
+            restored = server.waitForOp('volume', payload => payload.volume === 100);
+        await player.stop();
+        await Promise.all([faded, stop, restored]);
+        assert.strictEqual(player.track, null);
+        assert.strictEqual(player.volume, 100);
+    });
+});
@@ -0,0 +1,515 @@
+import assert from "assert";
+import { Client } from "eris";
+import { EventEmitter } from "events";
+import { JoinAbortedError, JoinTimeoutError, NoNodesAvailableError, UnknownGuildError } from "../src/Errors";
+import MockLavalink from "../src/MockLavalink";
+import PlayerManager from "../src/PlayerManager";
+import { VoiceUpdatePayload } from "../src/Protocol";
+import { MemoryStorage, PlayerSnapshot } from "../src/Storage";
+import { CHANNEL_ID, createManager, destroyManager, fakeShard, GUILD_ID, join, track, USER_ID, waitFor } from "./helpers";
+
+/**
+ * Wait until a condition is true
+ * @param {Function} fn The condition
+ */
+async function until(fn: () => boolean) {
+    for (let i = 0; i < 100 && !fn(); i++) {
+        await new Promise(res => setTimeout(res, 10));
+    }
+    assert.ok(fn(), 'Condition never became true');
+}
+
+describe('PlayerManager', () => {
+    let servers: MockLavalink[],
+        manager: PlayerManager;
+
+    beforeEach(async () => {
+        servers = [new MockLavalink(), new MockLavalink()];
+        await Promise.all(servers.map(server => server.start()));
+    });
+
+    afterEach(async () => {
+        if (manager) {
+            destroyManager(manager);
+            manager = null;
+        }
+        await Promise.all(servers.map(server => server.close()));
+    });
+
+    it('prefers node settings over manager options', async () => {
+        manager = new PlayerManager(new Client('Bot token'), [{
+            host: '127.0.0.1',
+            port: servers[0].port,
+            region: 'us',
+            password: servers[0].password,
+            resumeKey: 'node',
+            reconnect: { baseDelay: 10 },
+            requestTimeout: 2000,
+        }], {
+            numShards: 1,
+            userId: USER_ID,
+            voiceEvents: false,
+            resumeKey: 'manager',
+            reconnect: { baseDelay: 50 },
+            heartbeat: { interval: 0 },
+        });
+
+        let node = manager.nodes.get('127.0.0.1');
+        await waitFor(node, 'ready');
+        assert.strictEqual(node.resumeKey, 'node');
+        assert.strictEqual(node.reconnectPolicy.baseDelay, 10);
+        assert.strictEqual(node.requestTimeout, 2000);
+    });
+
+    it('joins a channel and sends the voice update', async () => {
+        manager = await createManager([servers[0]]);
+
+        let voiceUpdate = servers[0].waitForOp('voiceUpdate');
+        let player = await join(manager);
+
+        assert.strictEqual(manager.players.get(GUILD_ID), player);
+        assert.deepStrictEqual(await voiceUpdate, {
+            op: 'voiceUpdate',
+            guildId: GUILD_ID,
+            sessionId: 'session',
+            event: { endpoint: 'us-east1.discord.media:443', guild_id: GUILD_ID, token: 'token' },
+        });
+    });
+
+    it('joins and plays through a v4 node', async () => {
+        await servers[0].close();
+        servers[0] = new MockLavalink({ version: 4 });
+        await servers[0].start();
+        manager = await createManager([servers[0]]);
+
+        let voice = servers[0].waitForRequest('PATCH', `/v4/sessions/session1/players/${GUILD_ID}`);
+        let player = await join(manager);
+        assert.deepStrictEqual((await voice).body, { voice: { token: 'token', endpoint: 'us-east1.discord.media:443', sessionId: 'session' } });
+
+        let play = servers[0].waitForRequest('PATCH', `/v4/sessions/session1/players/${GUILD_ID}?noReplace=false`);
+        player.play(track('a'));
+        assert.strictEqual((await play).body.encodedTrack, track('a'));
+
+        servers[0].sendTrackEnd(GUILD_ID, track('a'), 'FINISHED');
+        await waitFor(player, 'end');
+        assert.strictEqual(player.track, null);
+    });
+
+    it('leaves a v4 node without recreating the player', async () => {
+        await servers[0].close();
+        servers[0] = new MockLavalink({ version: 4 });
+        await servers[0].start();
+        manager = await createManager([servers[0]]);
+
+        let player = await join(manager);
+        player.play(track('a'));
+        player.pause({ fade: 0 });
+        await servers[0].waitForRequest('PATCH', `/v4/sessions/session1/players/${GUILD_ID}`);
+
+        let destroy = servers[0].waitForRequest('DELETE', `/v4/sessions/session1/players/${GUILD_ID}`);
+        await manager.leave(GUILD_ID);
+        await destroy;
+        await new Promise(res => setTimeout(res, 20));
+        assert.strictEqual(servers[0].players.has(GUILD_ID), false);
+    });
+
+    it('rejects when no node is available', async () => {
+        manager = await createManager([servers[0]]);
+        for (let node of manager.nodes.values()) {
+            node.draining = true;
+        }
+
+        await assert.rejects(manager.join(GUILD_ID, '1', {}, null), NoNodesAvailableError);
+    });
+
+    it('times out without a voice server update', async () => {
+        manager = await createManager([servers[0]], { joinTimeout: 20 });
+
+        await assert.rejects(manager.join(GUILD_ID, CHANNEL_ID, {}, null), JoinTimeoutError);
+        assert.strictEqual(manager.pendingGuilds[GUILD_ID], undefined);
+        assert.strictEqual(manager.metrics.joinTimeouts, 1);
+    });
+
+    it('cancels a join through its signal', async () => {
+        manager = await createManager([servers[0]]);
+        let signal = Object.assign(new EventEmitter(), { aborted: false }) as any;
+        signal.addEventListener = signal.on;
+        signal.removeEventListener = signal.removeListener;
+
+        let joining = manager.join(GUILD_ID, CHANNEL_ID, { signal }, null);
+        await until(() => !!manager.pendingGuilds[GUILD_ID]);
+        signal.aborted = true;
+        signal.emit('abort');
+
+        await assert.rejects(joining, JoinAbortedError);
+        assert.strictEqual(manager.pendingGuilds[GUILD_ID], undefined);
+        assert.strictEqual(signal.listenerCount('abort'), 0);
+        await assert.rejects(manager.join(GUILD_ID, CHANNEL_ID, { signal }, null), JoinAbortedError);
+    });
+
+    it('shares concurrent joins of a guild', async () => {
+        manager = await createManager([servers[0]]);
+
+        let voiceUpdate = servers[0].waitForOp('voiceUpdate'),
+            first = join(manager),
+            second = manager.join(GUILD_ID, CHANNEL_ID, {}, null);
+        let [a, b] = await Promise.all([first, second, voiceUpdate]);
+
+        assert.strictEqual(a, b);
+        assert.strictEqual(servers[0].received.filter(op => op.op === 'voiceUpdate').length, 1);
+    });
+
+    it('ignores duplicate voice server updates', async () => {
+        manager = await createManager([servers[0]]);
+        await Promise.all([join(manager), servers[0].waitForOp('voiceUpdate')]);
+
+        let count = servers[0].received.filter(op => op.op === 'voiceUpdate').length;
+        assert.strictEqual(count, 1);
+        await manager.voiceServerUpdate({ guild_id: GUILD_ID, token: 'token', endpoint: 'us-east1.discord.media:443', session_id: 'session', shard: fakeShard() });
+        await new Promise(res => setTimeout(res, 20));
+        assert.strictEqual(servers[0].received.filter(op => op.op === 'voiceUpdate').length, count);
+    });
+
+    it('pairs voice events from the gateway and ignores the eris voice server update', async () => {
+        manager = await createManager([servers[0]], { voiceEvents: true });
+        manager.client.user = { id: USER_ID } as any;
+        manager.client.shards.set(0, fakeShard());
+
+        let joining = manager.join(GUILD_ID, CHANNEL_ID, {}, null);
+        await until(() => !!manager.pendingGuilds[GUILD_ID]);
+
+        // eris emits rawWS first and then passes the packet with the gateway session to voiceServerUpdate
+        manager.client.emit('rawWS', { op: 0, t: 'VOICE_STATE_UPDATE', d: { guild_id: GUILD_ID, channel_id: CHANNEL_ID, user_id: USER_ID, session_id: 'voice-session' } }, 0);
+        let packet = { op: 0, t: 'VOICE_SERVER_UPDATE', d: { guild_id: GUILD_ID, token: 'token', endpoint: 'us-east1.discord.media:443' } };
+        manager.client.emit('rawWS', packet, 0);
+        await manager.voiceServerUpdate(Object.assign(packet.d, { session_id: 'gateway-session', user_id: USER_ID, shard: manager.client.shards.get(0) }));
+
+        let player = await joining;
+        await servers[0].waitForOp('voiceUpdate');
+        await new Promise(res => setTimeout(res, 50));
+
+        let updates = servers[0].received.filter(op => op.op === 'voiceUpdate') as VoiceUpdatePayload[];
+        assert.strictEqual(updates.length, 1);
+        assert.strictEqual(updates[0].sessionId, 'voice-session');
+        assert.strictEqual(player.voiceUpdate.sessionId, 'voice-session');
+    });
+
+    it('leaves a channel', async () => {
+        manager = await createManager([servers[0]]);
+        let player = await join(manager);
+
+        let destroy = servers[0].waitForOp('destroy');
+        await manager.leave(GUILD_ID);
+
+        assert.deepStrictEqual(await destroy, { op: 'destroy', guildId: GUILD_ID });
+        assert.strictEqual(manager.players.has(GUILD_ID), false);
+        assert.strictEqual(player.playing, false);
+        assert.deepStrictEqual((player.shard as any).sent.pop().data, { guild_id: GUILD_ID, channel_id: null, self_mute: false, self_deaf: false });
+    });
+
+    it('cancels a pending join when leaving', async () => {
+        manager = await createManager([servers[0]]);
+        let shard = fakeShard();
+        manager.client.shards.set(0, shard);
+
+        let joining = manager.join(GUILD_ID, CHANNEL_ID, {}, null);
+        await until(() => !!manager.pendingGuilds[GUILD_ID]);
+        await manager.leave(GUILD_ID);
+
+        await assert.rejects(joining, JoinAbortedError);
+        assert.strictEqual(shard.sent[0].data.channel_id, null);
+    });
+
+    it('does not leave an idle timeout behind when kicked from the channel', async () => {
+        manager = await createManager([servers[0]], { idleTimeout: 60 });
+        manager.client.user = { id: USER_ID } as any;
+        let player = await join(manager);
+        player.play(track('a'));
+        assert.strictEqual(manager.idleTimeouts.has(GUILD_ID), false);
+
+        manager.voiceStateUpdate({ guild_id: GUILD_ID, channel_id: null, user_id: USER_ID, session_id: 'session' });
+
+        assert.strictEqual(manager.players.has(GUILD_ID), false);
+        assert.strictEqual(manager.idleTimeouts.has(GUILD_ID), false);
+    });
+
+    it('moves a player to another node', async () => {
+        manager = await createManager(servers);
+        let player = await join(manager, GUILD_ID);
+        let to = Array.from(manager.nodes.values()).find(node => node !== player.node),
+            source = player.node.port === servers[0].port ? servers[0] : servers[1],
+            target = source === servers[0] ? servers[1] : servers[0];
+
+        player.play(track('a'), { startTime: 2000 });
+
+        let destroy = source.waitForOp('destroy'),
+            voiceUpdate = target.waitForOp('voiceUpdate'),
+            play = target.waitForOp('play');
+        let moved = waitFor(player, 'move');
+
+        await manager.movePlayer(GUILD_ID, to.host);
+
+        await destroy;
+        assert.strictEqual((await voiceUpdate).sessionId, 'session');
+        let payload = await play;
+        assert.strictEqual(payload.track, track('a'));
+        assert.ok(payload.startTime >= 2000);
+        await moved;
+        assert.strictEqual(player.node, to);
+    });
+
+    it('moves a resumed player without a voice update', async () => {
+        manager = await createManager(servers);
+        let player = manager.resumePlayer(GUILD_ID, CHANNEL_ID, '127.0.0.1'),
+            to = manager.nodes.get('localhost');
+
+        player.play(track('a'));
+        await servers[0].waitForOp('play');
+
+        let play = servers[1].waitForOp('play');
+        player.moveNode(to);
+
+        assert.strictEqual((await play).track, track('a'));
+        assert.deepStrictEqual(servers[1].received.map(op => op && op.op), ['play']);
+    });
+
+    it('drains a node once its players without a voice update rejoined', async () => {
+        manager = await createManager(servers);
+        let player = manager.resumePlayer(GUILD_ID, CHANNEL_ID, '127.0.0.1');
+        player.shard = fakeShard();
+
+        let drained = false,
+            draining = manager.drainNode('127.0.0.1').then(() => drained = true);
+        await until(() => !!manager.pendingGuilds[GUILD_ID]);
+        await new Promise(res => setTimeout(res, 20));
+        assert.strictEqual(drained, false);
+
+        await manager.voiceServerUpdate({ guild_id: GUILD_ID, token: 'token2', endpoint: 'us-east1.discord.media:443', session_id: 'session', shard: fakeShard() });
+        await draining;
+        assert.strictEqual(player.node, manager.nodes.get('localhost'));
+        assert.strictEqual(manager.players.get(GUILD_ID), player);
+    });
+
+    it('fails over players when a node disconnects', async () => {
+        manager = await createManager(servers);
+        let player = await join(manager, GUILD_ID);
+        let source = player.node.port === servers[0].port ? servers[0] : servers[1],
+            target = source === servers[0] ? servers[1] : servers[0];
+
+        player.play(track('a'));
+        let play = target.waitForOp('play');
+        source.disconnect();
+
+        // the player rejoins through discord, answer with a new voice server update
+        await until(() => !!manager.pendingGuilds[GUILD_ID]);
+        await manager.voiceServerUpdate({ guild_id: GUILD_ID, token: 'token2', endpoint: 'us-east1.discord.media:443', session_id: 'session', shard: fakeShard() });
+
+        assert.strictEqual((await play).track, track('a'));
+        assert.strictEqual(player.node.port, target.port);
+        assert.strictEqual(manager.metrics.failovers, 1);
+    });
+
+    it('drops the buffered commands of players moved off a disconnected node', async () => {
+        manager = await createManager(servers);
+        let player = await join(manager, GUILD_ID);
+        let node = player.node,
+            source = node.port === servers[0].port ? servers[0] : servers[1];
+
+        player.play(track('a'));
+        await source.waitForOp('play');
+        source.disconnect();
+
+        await until(() => !!manager.pendingGuilds[GUILD_ID]);
+        let dropped = waitFor(node, 'dropped');
+        player.setVolume(50);
+        assert.strictEqual(node.buffer.length, 1);
+
+        await manager.voiceServerUpdate({ guild_id: GUILD_ID, token: 'token2', endpoint: 'us-east1.discord.media:443', session_id: 'session', shard: fakeShard() });
+        assert.deepStrictEqual(await dropped, [{ op: 'volume', guildId: GUILD_ID, volume: 50 }, 'moved']);
+
+        let received = source.received.length;
+        await waitFor(node, 'ready');
+        await new Promise(res => setTimeout(res, 20));
+        assert.deepStrictEqual(source.received.slice(received), []);
+    });
+
+    it('switches node to recover a failed track', async () => {
+        manager = await createManager(servers, { recovery: { exceptions: { SUSPICIOUS: 'switchNode' } } });
+        let player = await join(manager, GUILD_ID);
+        let source = player.node.port === servers[0].port ? servers[0] : servers[1],
+            target = source === servers[0] ? servers[1] : servers[0];
+
+        player.on('error', () => undefined);
+        player.play(track('a'));
+        await source.waitForOp('play');
+
+        let play = target.waitForOp('play');
+        source.sendTrackException(GUILD_ID, track('a'), 'Something broke', 'SUSPICIOUS');
+        source.sendTrackEnd(GUILD_ID, track('a'), 'LOAD_FAILED');
+
+        let [event] = await waitFor(player, 'recovery');
+        assert.deepStrictEqual([event.action, event.attempt], ['switchNode', 1]);
+        assert.strictEqual((await play).track, track('a'));
+        assert.strictEqual(player.node.port, target.port);
+    });
+
+    it('routes events to the player of the node', async () => {
+        manager = await createManager([servers[0]]);
+        let player = await join(manager);
+        player.play(track('a'));
+
+        servers[0].sendTrackException(GUILD_ID, track('a'), 'Broken');
+        await waitFor(player, 'error');
+        servers[0].sendTrackStuck(GUILD_ID, track('a'));
+        await waitFor(player, 'end');
+
+        let metrics = manager.getMetrics();
+        assert.strictEqual(metrics.trackExceptions, 1);
+        assert.strictEqual(metrics.trackStuck, 1);
+        assert.strictEqual(metrics.joins, 1);
+    });
+
+    it('reconnects the voice session after a recoverable close', async () => {
+        manager = await createManager([servers[0]]);
+        let player = await join(manager),
+            sent = (player.shard as any).sent;
+
+        let closed = waitFor(player, 'voiceClosed');
+        servers[0].sendWebSocketClosed(GUILD_ID, 4006, 'Session is no longer valid.');
+        assert.deepStrictEqual((await closed)[0], { code: 4006, reason: 'Session is no longer valid.', byRemote: true });
+
+        await until(() => !!manager.pendingGuilds[GUILD_ID]);
+        assert.deepStrictEqual(sent.slice(-2).map((packet: any) => packet.data.channel_id), [null, CHANNEL_ID]);
+
+        let voiceUpdate = servers[0].waitForOp('voiceUpdate', payload => payload.sessionId === 'session2');
+        await manager.voiceServerUpdate({ guild_id: GUILD_ID, token: 'token2', endpoint: 'us-east1.discord.media:443', session_id: 'session2', shard: player.shard });
+        assert.strictEqual((await voiceUpdate).event.token, 'token2');
+        await until(() => !manager.pendingGuilds[GUILD_ID]);
+        assert.strictEqual(manager.players.get(GUILD_ID), player);
+    });
+
+    it('disconnects after too many recoverable closes in a row', async () => {
+        manager = await createManager([servers[0]], { voiceReconnect: { maxAttempts: 2, baseDelay: 10 } });
+        let player = await join(manager),
+            sent = (player.shard as any).sent;
+
+        for (let attempt = 1; attempt <= 2; attempt++) {
+            let count = sent.length;
+            servers[0].sendWebSocketClosed(GUILD_ID, 4006, 'Session is no longer valid.');
+            await waitFor(player, 'voiceClosed');
+            assert.strictEqual(sent.length, count, 'the reconnect is delayed');
+
+            await until(() => !!manager.pendingGuilds[GUILD_ID]);
+            await manager.voiceServerUpdate({ guild_id: GUILD_ID, token: `token${attempt}`, endpoint: 'us-east1.discord.media:443', session_id: `session${attempt}`, shard: player.shard });
+            await until(() => !manager.pendingGuilds[GUILD_ID]);
+        }
+
+        let disconnect = waitFor(player, 'disconnect');
+        servers[0].sendWebSocketClosed(GUILD_ID, 4006, 'Session is no longer valid.');
+
+        let [err] = await disconnect;
+        assert.ok(err.message.includes('after 2 reconnects'));
+        assert.strictEqual(manager.players.has(GUILD_ID), false);
+        assert.strictEqual(manager.voiceReconnects.has(GUILD_ID), false);
+    });
+
+    it('destroys the player after a fatal close', async () => {
+        manager = await createManager([servers[0]]);
+        let player = await join(manager);
+
+        let destroy = servers[0].waitForOp('destroy'),
+            disconnect = waitFor(player, 'disconnect');
+        servers[0].sendWebSocketClosed(GUILD_ID, 4014, 'Disconnected.');
+
+        await destroy;
+        let [err] = await disconnect;
+        assert.ok(err.message.includes('4014'));
+        assert.strictEqual(manager.players.has(GUILD_ID), false);
+    });
+
+    describe('restore', () => {
+        let storage: MemoryStorage;
+
+        /**
+         * Make a guild known to the client with a ready shard
+         */
+        function addGuild() {
+            manager.client.guilds.set(GUILD_ID, { id: GUILD_ID, shard: Object.assign(fakeShard(), { ready: true }) } as any);
+        }
+
+        beforeEach(() => {
+            storage = new MemoryStorage();
+            storage.set(GUILD_ID, {
+                guildId: GUILD_ID,
+                channelId: CHANNEL_ID,
+                host: '127.0.0.1',
+                track: track('a'),
+                position: 5000,
+                volume: 100,
+                paused: false,
+                filters: {},
+                timestamp: Date.now(),
+            } as PlayerSnapshot);
+        });
+
+        it('waits for a node to connect', async () => {
+            manager = new PlayerManager(new Client('Bot token'), [{
+                host: '127.0.0.1',
+                port: servers[0].port,
+                region: 'us',
+                password: servers[0].password,
+            }], { numShards: 1, userId: USER_ID, voiceEvents: false, heartbeat: { interval: 0 }, storage });
+            addGuild();
+
+            let restoring = manager.restore();
+            await until(() => !!manager.pendingGuilds[GUILD_ID]);
+            await manager.voiceServerUpdate({ guild_id: GUILD_ID, token: 'token', endpoint: 'us-east1.discord.media:443', session_id: 'session', shard: fakeShard() });
+
+            let players = await restoring;
+            assert.strictEqual(players.length, 1);
+            assert.strictEqual((await servers[0].waitForOp('play')).track, track('a'));
+        });
+
+        it('keeps the snapshot when no node is available', async () => {
+            manager = await createManager([servers[0]], { storage, restoreTimeout: 50 });
+            addGuild();
+            await manager.drainNode('127.0.0.1');
+
+            let error = waitFor(manager.client, 'error');
+            assert.deepStrictEqual(await manager.restore(), []);
+            assert.ok((await error)[0] instanceof NoNodesAvailableError);
+            assert.ok(storage.get(GUILD_ID));
+        });
+
+        it('deletes the snapshot of an unknown guild once the client is ready', async () => {
+            manager = await createManager([servers[0]], { storage });
+            manager.client.startTime = Date.now();
+
+            let error = waitFor(manager.client, 'error');
+            assert.deepStrictEqual(await manager.restore(), []);
+            assert.ok((await error)[0] instanceof UnknownGuildError);
+            await until(() => !storage.get(GUILD_ID));
+        });
+    });
+
+    it('records node stats', async () => {
+        manager = await createManager([servers[0]]);
+        let node = Array.from(manager.nodes.values())[0];
+
+        servers[0].sendStats({ players: 4, playingPlayers: 1 });
+        await waitFor(node, 'message');
+
+        let metrics = manager.getMetrics();
+        assert.strictEqual(metrics.nodes[0].stats.players, 4);
+        assert.strictEqual(metrics.nodes[0].history.length, 1);
+        assert.ok(manager.getPrometheusMetrics().includes(`eris_lavalink_node_players{node="${node.host}",region="us"} 4`));
+    });
+
+    it('loads tracks through a node', async () => {
+        manager = await createManager([servers[0]]);
+        servers[0].addTracks('ytsearch:a', [{ track: track('a'), info: null }]);
+
+        let result = await manager.loadTracks('ytsearch:a');
+        assert.strictEqual(result.tracks[0].track, track('a'));
+    });
+});
@@ -0,0 +1,55 @@
+import assert from "assert";
+import { decodeTrack, encodeTrack } from "../src/TrackCodec";
+import { FIXTURE_TRACK } from "./helpers";
+
+describe('TrackCodec', () => {
+    it('decodes a track encoded by Lavalink', () => {
+        let info = decodeTrack(FIXTURE_TRACK);
+        assert.strictEqual(info.title, 'Rick Astley - Never Gonna Give You Up');
+        assert.strictEqual(info.author, 'RickAstleyVEVO');
+        assert.strictEqual(info.length, 212000);
+        assert.strictEqual(info.identifier, 'dQw4w9WgXcQ');
+        assert.strictEqual(info.isStream, false);
+        assert.strictEqual(info.uri, 'https://www.youtube.com/watch?v=dQw4w9WgXcQ');
+        assert.strictEqual(info.sourceName, 'youtube');
+        assert.strictEqual(info.position, 0);
+        assert.strictEqual(info.version, 2);
+    });
+
+    it('encodes a track the same way as Lavalink', () => {
+        assert.strictEqual(encodeTrack(decodeTrack(FIXTURE_TRACK)), FIXTURE_TRACK);
+    });
+
+    it('round trips version 1 and 3 tracks', () => {
+        let info = {
+            title: 'Título ✓ 🎵',
+            author: 'Author',
+            length: 5000000000,
+            identifier: 'abc',
+            isStream: true,
+            uri: 'https://example.com/abc',
+            sourceName: 'http',
+            position: 1234,
+            artworkUrl: 'https://example.com/abc.png',
+            isrc: null as string,
+        };
+
+        let v1 = decodeTrack(encodeTrack(info, 1));
+        assert.strictEqual(v1.version, 1);
+        assert.strictEqual(v1.uri, null);
+        assert.strictEqual(v1.title, info.title);
+
+        let v3 = decodeTrack(encodeTrack(info, 3));
+        assert.strictEqual(v3.version, 3);
+        assert.strictEqual(v3.title, info.title);
+        assert.strictEqual(v3.length, info.length);
+        assert.strictEqual(v3.position, info.position);
+        assert.strictEqual(v3.artworkUrl, info.artworkUrl);
+        assert.strictEqual(v3.isrc, null);
+    });
+
+    it('throws a RangeError for malformed tracks', () => {
+        assert.throws(() => decodeTrack(''), RangeError);
+        assert.throws(() => decodeTrack(FIXTURE_TRACK.slice(0, 40)), RangeError);
+    });
+});
@@ -0,0 +1,144 @@
+import { Client, Shard } from "eris";
+import Lavalink, { LavalinkOptions } from "../src/Lavalink";
+import MockLavalink from "../src/MockLavalink";
+import PlayerManager from "../src/PlayerManager";
+import { encodeTrack } from "../src/TrackCodec";
+
+export const USER_ID = '100000000000000000';
+export const GUILD_ID = '200000000000000000';
+export const CHANNEL_ID = '300000000000000000';
+export const HOSTS = ['127.0.0.1', 'localhost'];
+
+/**
+ * Rick Astley - Never Gonna Give You Up, encoded by Lavalink
+ */
+export const FIXTURE_TRACK = 'QAAAjQIAJVJpY2sgQXN0bGV5IC0gTmV2ZXIgR29ubmEgR2l2ZSBZb3UgVXAADlJpY2tBc3RsZXlWRVZPAAAAAAADPCAAC2RRdzR3OVdnWGNRAAEAK2h0dHBzOi8vd3d3LnlvdXR1YmUuY29tL3dhdGNoP3Y9ZFF3NHc5V2dYY1EAB3lvdXR1YmUAAAAAAAAAAA==';
+
+/**
+ * Create a track for tests
+ * @param {string} identifier The track identifier
+ */
+export function track(identifier: string): string {
+    return encodeTrack({
+        title: `Track ${identifier}`,
+        author: 'Tester',
+        length: 180000,
+        identifier,
+        isStream: false,
+        uri: `https://example.com/${identifier}`,
+        sourceName: 'http',
+    });
+}
+
+/**
+ * Create a node connected to a mock server
+ * @param {MockLavalink} server The mock server
+ * @param {Object} [options] Additional node options
+ */
+export async function connectNode(server: MockLavalink, options?: Partial<LavalinkOptions>): Promise<Lavalink> {
+    let node = new Lavalink(Object.assign({
+        host: '127.0.0.1',
+        port: server.port,
+        region: 'us',
+        numShards: 1,
+        userId: USER_ID,
+        password: server.password,
+        heartbeat: { interval: 0 },
+    }, options));
+
+    await waitFor(node, 'ready');
+    return node;
+}
+
+/**
+ * Create a player manager with a node per mock server, waits for the nodes to connect
+ * @param {MockLavalink[]} servers The mock servers
+ * @param {Object} [options] Additional manager options
+ */
+export async function createManager(servers: MockLavalink[], options?: any): Promise<PlayerManager> {
+    let client = new Client('Bot token');
+    client.on('error', () => undefined);
+
+    // nodes are keyed by host, the servers listen on every interface so each node gets its own hostname
+    let manager = new PlayerManager(client, servers.map((server, index) => ({
+        host: HOSTS[index],
+        port: server.port,
+        region: 'us',
+        password: server.password,
+    })), Object.assign({
+        numShards: 1,
+        userId: USER_ID,
+        voiceEvents: false,
+        failoverRate: 0,
+        reconnect: { baseDelay: 50 },
+        heartbeat: { interval: 0 },
+        voiceReconnect: { baseDelay: 10 },
+    }, options));
+
+    let nodes = Array.from(manager.nodes.values());
+    await Promise.all(nodes.map(node => node.connected ? null : waitFor(node, 'ready')));
+    return manager;
+}
+
+/**
+ * Destroy all nodes of a manager
+ * @param {PlayerManager} manager The player manager
+ */
+export function destroyManager(manager: PlayerManager) {
+    for (let node of manager.nodes.values()) {
+        node.destroy();
+    }
+    manager.client.removeAllListeners();
+}
+
+/**
+ * A shard that records the gateway packets sent through it
+ */
+export function fakeShard(): Shard & { sent: { op: number, data: any }[] } {
+    let sent: { op: number, data: any }[] = [];
+    return {
+        id: 0,
+        sent,
+        sendWS(op: number, data: any) {
+            sent.push({ op, data });
+        },
+    } as any;
+}
+
+/**
+ * Join a guild and answer with a voice server update
+ * @param {PlayerManager} manager The player manager
+ * @param {string} [guildId] The guild ID
+ */
+export function join(manager: PlayerManager, guildId?: string) {
+    guildId = guildId || GUILD_ID;
+    let joining = manager.join(guildId, CHANNEL_ID, {}, null);
+    setImmediate(() => manager.voiceServerUpdate({
+        guild_id: guildId,
+        token: 'token',
+        endpoint: 'us-east1.discord.media:443',
+        session_id: 'session',
+        shard: fakeShard(),
+    }));
+    return joining;
+}
+
+/**
+ * Wait for an event
+ * @param {EventEmitter} emitter The emitter
+ * @param {string} event The event name
+ * @param {number} [timeout=2000] The time in ms to wait
+ */
+export function waitFor(emitter: { once: Function, removeListener: Function }, event: string, timeout?: number): Promise<any[]> {
+    return new Promise((res, rej) => {
+        let listener = (...args: any[]) => {
+            clearTimeout(timer);
+            res(args);
+        };
+        let timer = setTimeout(() => {
+            emitter.removeListener(event, listener);
+            rej(new Error(`Timed out waiting for ${event}`));
+        }, timeout || 2000);
+        emitter.once(event, listener);
+    });
+}
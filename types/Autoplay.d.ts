@@ -0,0 +1,19 @@
+import { Track } from './Lavalink';
+import Player from './Player';
+import { DecodedTrackInfo } from './TrackCodec';
+/**
+ * Finds a track related to the one that just finished
+ * @param {Player} player The player to find a track for
+ * @param {DecodedTrackInfo} info The info of the finished track
+ * @param {string[]} exclude Identifiers of recently played tracks
+ * @returns {Promise<Track>} The track to play, null if none was found
+ */
+export declare type AutoplayResolver = (player: Player, info: DecodedTrackInfo, exclude: string[]) => Track | Promise<Track>;
+/**
+ * The built-in resolver, uses the YouTube mix of the track or a search for the author through the node
+ * @param {Player} player The player to find a track for
+ * @param {DecodedTrackInfo} info The info of the finished track
+ * @param {string[]} exclude Identifiers of recently played tracks
+ * @returns {Promise<Track>}
+ */
+export declare function defaultAutoplayResolver(player: Player, info: DecodedTrackInfo, exclude: string[]): Promise<Track>;
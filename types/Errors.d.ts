@@ -0,0 +1,79 @@
+import { TrackEndEvent, TrackExceptionEvent } from './Protocol';
+/**
+ * Thrown when no voice server update arrives in time after joining a channel
+ * @prop {string} guildId The guild ID
+ * @prop {number} timeout The timeout in ms
+ */
+export declare class JoinTimeoutError extends Error {
+    guildId: string;
+    timeout: number;
+    constructor(guildId: string, timeout: number);
+}
+/**
+ * Thrown when no connected node can take a player
+ * @prop {string} region The requested region, if any
+ */
+export declare class NoNodesAvailableError extends Error {
+    region: string;
+    constructor(region?: string);
+}
+/**
+ * Thrown when a player is joined to a missing or unknown channel
+ * @prop {string} guildId The guild ID
+ * @prop {string} channelId The channel ID
+ */
+export declare class InvalidChannelError extends Error {
+    guildId: string;
+    channelId: string;
+    constructor(guildId: string, channelId: string);
+}
+/**
+ * Thrown when a join is cancelled through its AbortSignal, by leave or because the player disconnected
+ * @prop {string} guildId The guild ID
+ */
+export declare class JoinAbortedError extends Error {
+    guildId: string;
+    constructor(guildId: string, reason?: string);
+}
+/**
+ * Thrown when a saved player can not be restored because the client is ready and does not know its guild
+ * @prop {string} guildId The guild ID
+ */
+export declare class UnknownGuildError extends Error {
+    guildId: string;
+    constructor(guildId: string);
+}
+/**
+ * Thrown when the shard of a saved player is not ready in time
+ * @prop {string} guildId The guild ID
+ * @prop {number} timeout The timeout in ms
+ */
+export declare class RestoreTimeoutError extends Error {
+    guildId: string;
+    timeout: number;
+    constructor(guildId: string, timeout: number);
+}
+/**
+ * Thrown when Lavalink does not acknowledge a command in time
+ * @prop {string} guildId The guild ID
+ * @prop {string} op The op of the command
+ * @prop {number} timeout The timeout in ms
+ */
+export declare class CommandTimeoutError extends Error {
+    guildId: string;
+    op: string;
+    timeout: number;
+    constructor(guildId: string, op: string, timeout: number);
+}
+/**
+ * Thrown when a track fails to play or a command is cancelled before it is acknowledged
+ * @prop {string} guildId The guild ID
+ * @prop {string} track The track, if any
+ * @prop {Object} event The exception or end event reported by Lavalink, null if the command was cancelled
+ */
+export declare class PlaybackError extends Error {
+    guildId: string;
+    track: string;
+    event: TrackExceptionEvent | TrackEndEvent;
+    constructor(guildId: string, track: string, message: string, event?: TrackExceptionEvent | TrackEndEvent);
+}
@@ -0,0 +1,31 @@
+import { EqualizerBand, Filters } from './Protocol';
+/**
+ * The names of the built-in filter presets
+ */
+export declare type FilterPreset = 'bassboost' | 'nightcore' | 'vaporwave' | '8D';
+/**
+ * The built-in filter presets
+ */
+export declare const FilterPresets: {
+    [P in FilterPreset]: Filters;
+};
+/**
+ * Validate filters against the ranges allowed by Lavalink
+ * @param {Filters} filters The filters to validate
+ * @returns {void}
+ * @throws {RangeError} If a value is out of range
+ */
+export declare function validateFilters(filters: Filters): void;
+/**
+ * Merge equalizer bands, later bands replace earlier ones with the same band number
+ * @param {EqualizerBand[]} current The current bands
+ * @param {EqualizerBand[]} bands The bands to merge in
+ * @returns {EqualizerBand[]} The merged bands sorted by band number
+ */
+export declare function mergeEqualizer(current: EqualizerBand[], bands: EqualizerBand[]): EqualizerBand[];
+/**
+ * Compose several filter objects, equalizer bands are merged and other filters are replaced, a null value removes that filter
+ * @param {...Filters} filters The filters to compose, later ones take precedence
+ * @returns {Filters}
+ */
+export declare function composeFilters(...filters: Filters[]): Filters;
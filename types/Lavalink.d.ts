@@ -1,12 +1,143 @@
 /// <reference types="node" />
-import WebSocket from "ws";
-import { EventEmitter } from "events";
+import WebSocket from 'ws';
+import { EventEmitter } from 'events';
+import { InboundPayload, NodeStats, OutboundPayload } from './Protocol';
+/**
+ * The load type returned by the Lavalink loadtracks endpoint
+ */
+export declare type LoadType = 'TRACK_LOADED' | 'PLAYLIST_LOADED' | 'SEARCH_RESULT' | 'NO_MATCHES' | 'LOAD_FAILED';
+/**
+ * Decoded information about a Lavalink track
+ */
+export interface TrackInfo {
+    identifier: string;
+    isSeekable: boolean;
+    author: string;
+    length: number;
+    isStream: boolean;
+    position: number;
+    title: string;
+    uri: string;
+}
+/**
+ * A base64 encoded Lavalink track along with its decoded info
+ */
+export interface Track {
+    track: string;
+    info: TrackInfo;
+}
+/**
+ * The response of the Lavalink loadtracks endpoint
+ */
+export interface LoadTracksResponse {
+    loadType: LoadType;
+    playlistInfo: {
+        name?: string;
+        selectedTrack?: number;
+    };
+    tracks: Track[];
+    exception?: {
+        message: string;
+        severity: string;
+    };
+}
+/**
+ * How a node reconnects after the websocket closes
+ */
+export interface ReconnectPolicy {
+    strategy: 'exponential' | 'linear' | 'fixed';
+    baseDelay: number;
+    maxDelay: number;
+    jitter: number;
+    maxAttempts: number;
+}
+/**
+ * How a node checks the health of its connection, an interval of 0 disables the heartbeat
+ */
+export interface HeartbeatOptions {
+    interval: number;
+    timeout: number;
+    statsTimeout: number;
+}
+/**
+ * How a node buffers commands sent while it is disconnected, a size of 0 disables the buffer
+ */
+export interface BufferOptions {
+    size: number;
+    ttl: number;
+}
+/**
+ * Why a buffered command was dropped
+ */
+export declare type DropReason = 'overflow' | 'expired' | 'dead' | 'moved';
+/**
+ * The options used to create a Lavalink node
+ */
+export interface LavalinkOptions {
+    host: string;
+    port: number;
+    region: string;
+    numShards: number;
+    userId: string;
+    password: string;
+    timeout?: number;
+    secure?: boolean;
+    path?: string;
+    headers?: {
+        [s: string]: string;
+    };
+    clientName?: string;
+    tls?: {
+        ca?: string | Buffer | (string | Buffer)[];
+        rejectUnauthorized?: boolean;
+    };
+    restPort?: number;
+    restSecure?: boolean;
+    resumeKey?: string;
+    resumeTimeout?: number;
+    weight?: number;
+    priority?: number;
+    tags?: string[];
+    reconnect?: Partial<ReconnectPolicy>;
+    heartbeat?: Partial<HeartbeatOptions>;
+    buffer?: Partial<BufferOptions>;
+    version?: 3 | 4;
+    requestTimeout?: number;
+}
+/**
+ * The events emitted by a Lavalink node
+ */
+export interface LavalinkEvents {
+    ready: [];
+    resumed: [];
+    disconnect: [];
+    reconnecting: [number, number];
+    dead: [];
+    unhealthy: [string];
+    error: [Error | string];
+    warn: [string, any?];
+    message: [InboundPayload];
+    dropped: [OutboundPayload, DropReason];
+}
+interface Lavalink {
+    on<K extends keyof LavalinkEvents>(event: K, listener: (...args: LavalinkEvents[K]) => void): this;
+    once<K extends keyof LavalinkEvents>(event: K, listener: (...args: LavalinkEvents[K]) => void): this;
+    off<K extends keyof LavalinkEvents>(event: K, listener: (...args: LavalinkEvents[K]) => void): this;
+    removeListener<K extends keyof LavalinkEvents>(event: K, listener: (...args: LavalinkEvents[K]) => void): this;
+    emit<K extends keyof LavalinkEvents>(event: K, ...args: LavalinkEvents[K]): boolean;
+}
 /**
  * Represents a Lavalink node
  * @extends EventEmitter
  * @prop {string} host The hostname for the node
  * @prop {number} port The port number for the node
  * @prop {string} address The full ws address for the node
+ * @prop {boolean} secure Whether the websocket uses wss
+ * @prop {string} path The path prefix used for the websocket and REST api
+ * @prop {object} headers Additional headers sent with the websocket and REST requests
+ * @prop {string} clientName The name sent as Client-Name header
+ * @prop {object} tls The TLS options used for secure connections
+ * @prop {string} restAddress The full http address for the node REST api
  * @prop {string} region The region for this node
  * @prop {string} userId The client user id
  * @prop {number} numShards The total number of shards the bot is running
@@ -14,10 +145,38 @@ import { EventEmitter } from "events";
  * @prop {boolean} connected If it's connected to the node
  * @prop {boolean} draining True if this node will no longer take new connections
  * @prop {object} stats The Lavalink node stats
+ * @prop {string} resumeKey The key used to resume the session, null if resuming is disabled
+ * @prop {number} resumeTimeout The time in seconds Lavalink keeps the session alive after a disconnect
+ * @prop {boolean} resumed True if the current connection resumed a previous session
+ * @prop {number} weight The relative capacity of the node, scores used for node selection are divided by it
+ * @prop {number} priority Nodes with a higher priority are selected before any other node
+ * @prop {string[]} tags Tags used to pin players to this node
+ * @prop {object} reconnectPolicy The reconnect backoff policy
+ * @prop {boolean} dead True if the node gave up reconnecting
+ * @prop {boolean} healthy False if the last health check failed, until the node reconnects
+ * @prop {number} latency The round-trip time of the last heartbeat in ms
+ * @prop {number} version The protocol version of the node, 3 for websocket ops and 4 for the session REST api, null until detected
+ * @prop {number} requestTimeout The time in ms after which a REST request is aborted
+ * @prop {string} sessionId The session ID sent by a v4 node in the ready op
+ * @prop {object} bufferOptions The size and ttl of the outbound buffer
+ * @prop {Object[]} buffer The commands sent while disconnected, sent in order once the node is ready
  */
 declare class Lavalink extends EventEmitter {
     address: string;
     port: number;
+    secure: boolean;
+    path: string;
+    headers: {
+        [s: string]: string;
+    };
+    clientName: string;
+    tls: {
+        ca?: string | Buffer | (string | Buffer)[];
+        rejectUnauthorized?: boolean;
+    };
+    restPort: number;
+    restAddress: string;
+    restSecure: boolean;
     region: string;
     host: string;
     numShards: number;
@@ -27,17 +186,37 @@ declare class Lavalink extends EventEmitter {
     draining: boolean;
     retries: number;
     reconnectTimeout: number;
-    stats: {
-        players?: number;
-        playingPlayers?: number;
-        cpu?: {
-            systemLoad: number;
-            cores: number;
-        };
-    };
+    reconnectPolicy: ReconnectPolicy;
+    dead: boolean;
+    heartbeatOptions: HeartbeatOptions;
+    bufferOptions: BufferOptions;
+    buffer: {
+        payload: OutboundPayload;
+        expiresAt: number;
+    }[];
+    healthy: boolean;
+    latency: number;
+    lastStatsAt: number;
+    pingSentAt: number;
+    heartbeatInterval: NodeJS.Timeout;
+    pongTimeout: NodeJS.Timeout;
+    resumeKey: string;
+    resumeTimeout: number;
+    resumed: boolean;
+    version: number;
+    requestTimeout: number;
+    sessionId: string;
+    weight: number;
+    priority: number;
+    tags: string[];
+    stats: Partial<NodeStats>;
     ws: WebSocket;
     reconnectInterval: NodeJS.Timeout;
     disconnectHandler: () => void;
+    private detectVersion;
+    private destroyed;
+    private restQueue;
+    private bufferTimer;
     /**
      * Lavalink constructor
      * @param {Object} options Lavalink node options
@@ -48,21 +227,47 @@ declare class Lavalink extends EventEmitter {
      * @param {string} options.userId The user id of the bot
      * @param {string} options.password The password for the Lavalink node
      * @param {number} [options.timeout=5000] Optional timeout in ms used for the reconnect backoff
+     * @param {boolean} [options.secure=false] Whether to use wss and https
+     * @param {string} [options.path] A path prefix, e.g. when the node is behind a reverse proxy
+     * @param {Object} [options.headers] Additional headers sent with the websocket and REST requests
+     * @param {string} [options.clientName='eris-lavalink'] The name sent as Client-Name header
+     * @param {Object} [options.tls] TLS options for secure connections
+     * @param {string|Buffer|Array} [options.tls.ca] Trusted certificate authorities
+     * @param {boolean} [options.tls.rejectUnauthorized=true] Whether to reject invalid certificates
+     * @param {number} [options.restPort] The port of the REST api, defaults to the websocket port
+     * @param {boolean} [options.restSecure] Whether to use https for the REST api, defaults to options.secure
+     * @param {string} [options.resumeKey] The key used to resume the session, persist it to resume after a restart
+     * @param {number} [options.resumeTimeout=60] The time in seconds Lavalink keeps the session alive after a disconnect
+     * @param {number} [options.weight=1] The relative capacity of the node
+     * @param {number} [options.priority=0] Nodes with a higher priority are selected before any other node
+     * @param {string[]} [options.tags] Tags used to pin players to this node
+     * @param {Object} [options.reconnect] The reconnect backoff policy
+     * @param {string} [options.reconnect.strategy='exponential'] One of exponential, linear or fixed
+     * @param {number} [options.reconnect.baseDelay] The first delay in ms, defaults to options.timeout
+     * @param {number} [options.reconnect.maxDelay=100000] The maximum delay in ms
+     * @param {number} [options.reconnect.jitter=0] Random variation of the delay as a fraction, from 0 to 1
+     * @param {number} [options.reconnect.maxAttempts=Infinity] Attempts after which the node is declared dead
+     * @param {Object} [options.heartbeat] The health check options
+     * @param {number} [options.heartbeat.interval=30000] The ping interval in ms, 0 disables health checks
+     * @param {number} [options.heartbeat.timeout=10000] The time in ms to wait for a pong
+     * @param {number} [options.heartbeat.statsTimeout=90000] The time in ms without stats after which the node is unhealthy
+     * @param {Object} [options.buffer] The outbound buffer used while disconnected
+     * @param {number} [options.buffer.size=100] The maximum number of buffered commands, the oldest are dropped first, 0 disables the buffer
+     * @param {number} [options.buffer.ttl=30000] The time in ms after which a buffered command is dropped
+     * @param {number} [options.version] The protocol version, 3 or 4, detected once through the version endpoint if omitted
+     * @param {number} [options.requestTimeout=10000] The time in ms after which a REST request is aborted
      */
-    constructor(options: {
-        host: string;
-        port: number;
-        region: string;
-        numShards: number;
-        userId: string;
-        password: string;
-        timeout?: number;
-    });
+    constructor(options: LavalinkOptions);
     /**
-     * Connect to the websocket server
+     * Connect to the node, detects the protocol version first unless it is configured or already detected
      * @private
      */
     connect(): void;
+    /**
+     * Open the websocket, v4 nodes serve it under /v4/websocket
+     * @private
+     */
+    openWebsocket(): void;
     /**
      * Reconnect to the websocket
      * @private
@@ -77,20 +282,127 @@ declare class Lavalink extends EventEmitter {
      * @private
      */
     ready(): void;
+    /**
+     * Configure session resuming, the key is sent as Resume-Key header on the next connect
+     * @param {string} key The key used to resume the session
+     * @param {number} [timeout=60] The time in seconds Lavalink keeps the session alive after a disconnect
+     * @returns {void}
+     */
+    configureResuming(key: string, timeout?: number): void;
     /**
      * Called when the websocket disconnects
     */
     private disconnected;
+    /**
+     * Start the health checks
+     * @private
+     */
+    private startHeartbeat;
+    /**
+     * Stop the health checks
+     * @private
+     */
+    private stopHeartbeat;
+    /**
+     * Ping the node and check that stats are still received
+     * @private
+     */
+    private heartbeat;
+    /**
+     * Called when the node answers a ping
+     * @private
+     */
+    private onPong;
+    /**
+     * Mark the node as unhealthy and force a reconnect
+     * @param {string} reason The failed check
+     * @private
+     */
+    private unhealthy;
     /**
      * Get the retry interval
      * @private
      */
     private retryInterval;
     /**
-     * Send data to Lavalink
-     * @param {*} data Data to send
+     * Send data to Lavalink, ops are sent as player updates through the REST api to v4 nodes
+     * and buffered while the node is disconnected
+     * @param {OutboundPayload} data Data to send
+     */
+    send(data: OutboundPayload): boolean | void;
+    /**
+     * Buffer a command until the node is ready, only the last volume and seek of a guild are kept
+     * @param {OutboundPayload} data The command
+     * @private
+     */
+    private bufferCommand;
+    /**
+     * Drop the expired commands of the buffer
+     * @private
+     */
+    private pruneBuffer;
+    /**
+     * Drop the oldest buffered command once it expires, the commands expire in order
+     * @private
+     */
+    private scheduleExpiry;
+    /**
+     * Drop the buffered commands of a guild, used when its player moved to another node
+     * @param {string} guildId The guild ID
+     * @returns {void}
+     */
+    discardBuffered(guildId: string): void;
+    /**
+     * Send the buffered commands in order
+     * @private
+     */
+    private flushBuffer;
+    /**
+     * Drop every buffered command
+     * @param {string} reason Why the commands are dropped
+     * @private
+     */
+    private dropBuffer;
+    /**
+     * Send an op as the equivalent v4 REST request, requests are sent one after another to keep the order of the ops
+     * @param {OutboundPayload} data The op to send
+     * @private
+     */
+    private sendRest;
+    /**
+     * Load tracks from the node using an identifier or search query
+     * @param {string} identifier The identifier to load, e.g. a url or `ytsearch:query`
+     * @returns {Promise<LoadTracksResponse>}
+     */
+    loadTracks(identifier: string): Promise<LoadTracksResponse>;
+    /**
+     * Decode a single base64 track
+     * @param {string} track The base64 track to decode
+     * @returns {Promise<TrackInfo>}
+     */
+    decodeTrack(track: string): Promise<TrackInfo>;
+    /**
+     * Decode several base64 tracks at once
+     * @param {string[]} tracks The base64 tracks to decode
+     * @returns {Promise<Track[]>}
+     */
+    decodeTracks(tracks: string[]): Promise<Track[]>;
+    /**
+     * Make a request to the node REST api
+     * @param {string} method The http method
+     * @param {string} path The path to request
+     * @param {*} [body] Optional body to send as json
+     * @private
+     */
+    private request;
+    /**
+     * Make a request to the node REST api without parsing the response, aborted after the request timeout
+     * @param {string} method The http method
+     * @param {string} path The path to request
+     * @param {*} [body] Optional body to send as json
+     * @private
      */
-    send(data: any): boolean;
+    private requestText;
     /**
      * Handle message from the server
      * @param {string} message Raw websocket message
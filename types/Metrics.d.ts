@@ -0,0 +1,140 @@
+import Lavalink from './Lavalink';
+import { NodeStats } from './Protocol';
+/**
+ * The stats of a node at a point in time
+ */
+export interface NodeStatsSample extends NodeStats {
+    timestamp: number;
+}
+/**
+ * The metrics of a node
+ */
+export interface NodeMetrics {
+    host: string;
+    region: string;
+    connected: boolean;
+    healthy: boolean;
+    latency: number;
+    reconnects: number;
+    players: number;
+    stats: NodeStatsSample;
+    history: NodeStatsSample[];
+}
+/**
+ * A plain snapshot of all metrics
+ */
+export interface MetricsSnapshot {
+    timestamp: number;
+    players: number;
+    playingPlayers: number;
+    failovers: number;
+    joins: number;
+    joinTimeouts: number;
+    joinFailures: number;
+    joinLatency: {
+        last: number;
+        average: number;
+        max: number;
+    };
+    trackExceptions: number;
+    trackStuck: number;
+    nodes: NodeMetrics[];
+}
+/**
+ * Records node stats history, failovers, reconnects, joins and track errors of a PlayerManager
+ * @prop {number} historySize The number of stats samples kept per node
+ * @prop {number} failovers The number of players switched to another node
+ * @prop {number} joins The number of successful joins
+ * @prop {number} joinTimeouts The number of joins that timed out
+ * @prop {number} joinFailures The number of joins that failed for another reason
+ * @prop {number} trackExceptions The number of track exception events
+ * @prop {number} trackStuck The number of track stuck events
+ */
+export default class Metrics {
+    historySize: number;
+    failovers: number;
+    joins: number;
+    joinTimeouts: number;
+    joinFailures: number;
+    joinLatencyTotal: number;
+    joinLatencyLast: number;
+    joinLatencyMax: number;
+    trackExceptions: number;
+    trackStuck: number;
+    reconnects: Map<string, number>;
+    history: Map<string, NodeStatsSample[]>;
+    /**
+     * Metrics constructor
+     * @param {Object} [options] Metrics options
+     * @param {number} [options.historySize=60] The number of stats samples kept per node
+     */
+    constructor(options?: {
+        historySize?: number;
+    });
+    /**
+     * Reset all counters and the stats history
+     * @returns {void}
+     */
+    reset(): void;
+    /**
+     * Record the stats sent by a node
+     * @param {Lavalink} node The node
+     * @param {NodeStats} stats The stats
+     * @returns {void}
+     */
+    recordStats(node: Lavalink, stats: NodeStats): void;
+    /**
+     * Record a reconnect attempt of a node
+     * @param {Lavalink} node The node
+     * @returns {void}
+     */
+    recordReconnect(node: Lavalink): void;
+    /**
+     * Record a player switched to another node
+     * @returns {void}
+     */
+    recordFailover(): void;
+    /**
+     * Record a successful join
+     * @param {number} latency The time in ms until the player was ready
+     * @returns {void}
+     */
+    recordJoin(latency: number): void;
+    /**
+     * Record a join that timed out
+     * @returns {void}
+     */
+    recordJoinTimeout(): void;
+    /**
+     * Record a join that failed
+     * @returns {void}
+     */
+    recordJoinFailure(): void;
+    /**
+     * Record a track exception event
+     * @returns {void}
+     */
+    recordTrackException(): void;
+    /**
+     * Record a track stuck event
+     * @returns {void}
+     */
+    recordTrackStuck(): void;
+    /**
+     * Get a plain snapshot of the metrics
+     * @param {Lavalink[]} nodes The current nodes
+     * @param {Object[]} players The current players
+     * @returns {MetricsSnapshot}
+     */
+    snapshot(nodes: Lavalink[], players: {
+        node: Lavalink;
+        playing: boolean;
+    }[]): MetricsSnapshot;
+    /**
+     * Format a snapshot in the Prometheus text exposition format
+     * @param {MetricsSnapshot} snapshot The snapshot to format
+     * @param {string} [prefix='eris_lavalink'] The prefix of the metric names
+     * @returns {string}
+     */
+    static toPrometheus(snapshot: MetricsSnapshot, prefix?: string): string;
+}
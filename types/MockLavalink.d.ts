@@ -0,0 +1,298 @@
+/// <reference types="node" />
+import WebSocket from 'ws';
+import http from 'http';
+import { EventEmitter } from 'events';
+import { Socket } from 'net';
+import { LoadTracksResponse, Track } from './Lavalink';
+import { ExceptionSeverity, InboundPayload, NodeStats, OutboundPayload, PlayerState, RestPlayerUpdate, TrackEndReason } from './Protocol';
+/**
+ * A REST request received by the mock server
+ */
+export interface MockRequest {
+    method: string;
+    path: string;
+    headers: http.IncomingHttpHeaders;
+    body: any;
+}
+/**
+ * The events emitted by the mock server
+ */
+export interface MockLavalinkEvents {
+    connection: [http.IncomingHttpHeaders];
+    op: [OutboundPayload];
+    request: [MockRequest];
+}
+interface MockLavalink {
+    on<K extends keyof MockLavalinkEvents>(event: K, listener: (...args: MockLavalinkEvents[K]) => void): this;
+    once<K extends keyof MockLavalinkEvents>(event: K, listener: (...args: MockLavalinkEvents[K]) => void): this;
+    off<K extends keyof MockLavalinkEvents>(event: K, listener: (...args: MockLavalinkEvents[K]) => void): this;
+    removeListener<K extends keyof MockLavalinkEvents>(event: K, listener: (...args: MockLavalinkEvents[K]) => void): this;
+    emit<K extends keyof MockLavalinkEvents>(event: K, ...args: MockLavalinkEvents[K]): boolean;
+}
+/**
+ * An in-process Lavalink server for tests, speaks the websocket and REST api without playing anything
+ * @extends EventEmitter
+ * @prop {number} port The port the server listens on, available after start
+ * @prop {string} password The password clients must send
+ * @prop {string} path The path prefix of the websocket and REST api
+ * @prop {Object[]} received The ops received from clients, in order
+ * @prop {Object[]} requests The REST requests received, in order
+ * @prop {Object[]} handshakes The headers of every accepted websocket connection
+ * @prop {Map<string, LoadTracksResponse>} tracks The responses of the loadtracks endpoint by identifier
+ * @prop {Set<WebSocket>} connections The open websocket connections
+ * @prop {string} resumeKey The resume key configured by the last client, null if none
+ * @prop {number} version The protocol version, 3 for websocket ops and 4 for the session REST api
+ * @prop {string} sessionId The session ID of the last v4 connection
+ * @prop {Map<string, Object>} players The state of every v4 player by guild ID, updated by the player update requests
+ * @prop {Set<string>} paused The guild IDs of paused v3 players, like Lavalink no player updates are sent for paused players
+ */
+declare class MockLavalink extends EventEmitter {
+    port: number;
+    password: string;
+    path: string;
+    received: OutboundPayload[];
+    requests: MockRequest[];
+    handshakes: http.IncomingHttpHeaders[];
+    tracks: Map<string, LoadTracksResponse>;
+    connections: Set<WebSocket>;
+    resumeKey: string;
+    resumeTimeout: number;
+    resumeExpiresAt: number;
+    version: number;
+    sessionId: string;
+    sessions: number;
+    players: Map<string, RestPlayerUpdate>;
+    paused: Set<string>;
+    server: http.Server;
+    wss: WebSocket.Server;
+    /**
+     * MockLavalink constructor
+     * @param {Object} [options] Server options
+     * @param {number} [options.port=0] The port to listen on, 0 picks a free port
+     * @param {string} [options.password='youshallnotpass'] The password clients must send
+     * @param {string} [options.path] A path prefix, like a node behind a reverse proxy
+     * @param {number} [options.version=3] The protocol version to speak, 3 or 4
+     */
+    constructor(options?: {
+        port?: number;
+        password?: string;
+        path?: string;
+        version?: 3 | 4;
+    });
+    /**
+     * Start listening
+     * @returns {Promise<number>} The port the server listens on
+     */
+    start(): Promise<number>;
+    /**
+     * Close all connections and stop listening
+     * @returns {Promise<void>}
+     */
+    close(): Promise<void>;
+    /**
+     * Check the headers sent by a client, see Lavalink.connect
+     * @param {Object} headers The request headers
+     * @returns {string} The reason the client is rejected, null if it is accepted
+     * @private
+     */
+    checkHeaders(headers: http.IncomingHttpHeaders): string;
+    /**
+     * Whether a resume key resumes the previous session
+     * @param {string} key The resume key sent by the client
+     * @private
+     */
+    canResume(key: string): boolean;
+    /**
+     * Called on a websocket upgrade request
+     * @private
+     */
+    onUpgrade(req: http.IncomingMessage, socket: Socket, head: Buffer): void;
+    /**
+     * Called on a REST request
+     * @private
+     */
+    onRequest(req: http.IncomingMessage, res: http.ServerResponse): void;
+    /**
+     * Called on a v4 REST request
+     * @private
+     */
+    onV4Request(method: string, path: string, params: URLSearchParams, body: any, res: http.ServerResponse): void | http.ServerResponse;
+    /**
+     * Convert a track to the v4 shape
+     * @param {string} track The base64 track
+     * @private
+     */
+    toV4Track(track: string): {
+        encoded: string;
+        info: import("./TrackCodec").DecodedTrackInfo;
+    };
+    /**
+     * Convert a loadtracks response to the v4 shape
+     * @param {LoadTracksResponse} result The response
+     * @private
+     */
+    toV4LoadResult(result: LoadTracksResponse): {
+        loadType: string;
+        data: {
+            encoded: string;
+            info: import("./TrackCodec").DecodedTrackInfo;
+        };
+    } | {
+        loadType: string;
+        data: {
+            info: {
+                name?: string;
+                selectedTrack?: number;
+            };
+            tracks: {
+                encoded: string;
+                info: import("./TrackCodec").DecodedTrackInfo;
+            }[];
+            message?: undefined;
+            severity?: undefined;
+        };
+    } | {
+        loadType: string;
+        data: {
+            encoded: string;
+            info: import("./TrackCodec").DecodedTrackInfo;
+        }[];
+    } | {
+        loadType: string;
+        data: {
+            message: string;
+            severity: string;
+            info?: undefined;
+            tracks?: undefined;
+        };
+    } | {
+        loadType: string;
+        data: {
+            info?: undefined;
+            tracks?: undefined;
+            message?: undefined;
+            severity?: undefined;
+        };
+    };
+    /**
+     * Send a json response
+     * @private
+     */
+    respond(res: http.ServerResponse, status: number, data: any): void;
+    /**
+     * Get the loadtracks response of an identifier
+     * @param {string} identifier The identifier
+     * @private
+     */
+    loadTracks(identifier: string): LoadTracksResponse;
+    /**
+     * Set the tracks returned for an identifier
+     * @param {string} identifier The identifier
+     * @param {Track[]} tracks The tracks, an empty array responds with NO_MATCHES
+     * @param {string} [loadType] The load type, TRACK_LOADED or SEARCH_RESULT by default
+     * @returns {void}
+     */
+    addTracks(identifier: string, tracks: Track[], loadType?: LoadTracksResponse['loadType']): void;
+    /**
+     * Send a payload to every connected client
+     * @param {InboundPayload|Object} payload The payload to send, not validated so malformed messages can be tested
+     * @returns {void}
+     */
+    send(payload: InboundPayload | {
+        [key: string]: any;
+    }): void;
+    /**
+     * Send node stats
+     * @param {Object} [stats] Stats to override the defaults with
+     * @returns {void}
+     */
+    sendStats(stats?: Partial<NodeStats>): void;
+    /**
+     * Send a player update, skipped for paused players like Lavalink does
+     * @param {string} guildId The guild ID
+     * @param {PlayerState} state The player state
+     * @returns {void}
+     */
+    sendPlayerUpdate(guildId: string, state: PlayerState): void;
+    /**
+     * Track the pause state of a v3 player from its ops, play only changes it when the pause flag is set
+     * @param {OutboundPayload} payload The op
+     * @private
+     */
+    trackPause(payload: OutboundPayload): void;
+    /**
+     * Send a track start event
+     * @param {string} guildId The guild ID
+     * @param {string} track The track that started
+     * @returns {void}
+     */
+    sendTrackStart(guildId: string, track: string): void;
+    /**
+     * Send a track end event
+     * @param {string} guildId The guild ID
+     * @param {string} track The track that ended
+     * @param {string} [reason='FINISHED'] The end reason
+     * @returns {void}
+     */
+    sendTrackEnd(guildId: string, track: string, reason?: TrackEndReason): void;
+    /**
+     * Send a track exception event
+     * @param {string} guildId The guild ID
+     * @param {string} track The track that failed
+     * @param {string} message The exception message
+     * @param {string} [severity='COMMON'] The exception severity
+     * @returns {void}
+     */
+    sendTrackException(guildId: string, track: string, message: string, severity?: ExceptionSeverity): void;
+    /**
+     * Send a track stuck event
+     * @param {string} guildId The guild ID
+     * @param {string} track The stuck track
+     * @param {number} [thresholdMs=10000] The stuck threshold
+     * @returns {void}
+     */
+    sendTrackStuck(guildId: string, track: string, thresholdMs?: number): void;
+    /**
+     * Send a Discord voice websocket closed event
+     * @param {string} guildId The guild ID
+     * @param {number} code The close code
+     * @param {string} [reason=''] The close reason
+     * @param {boolean} [byRemote=true] Whether Discord closed the connection
+     * @returns {void}
+     */
+    sendWebSocketClosed(guildId: string, code: number, reason?: string, byRemote?: boolean): void;
+    /**
+     * Close every connection, like a node restart or network failure
+     * @param {number} [code=1006] The close code, 1006 terminates without a close frame
+     * @param {string} [reason] The close reason
+     * @returns {void}
+     */
+    disconnect(code?: number, reason?: string): void;
+    /**
+     * Wait for an op from a client
+     * @param {string} op The op to wait for
+     * @param {Function} [filter] Only resolve for payloads that pass the filter
+     * @param {number} [timeout=2000] The time in ms to wait
+     * @returns {Promise<Object>} The payload
+     */
+    waitForOp<K extends OutboundPayload['op']>(op: K, filter?: (payload: Extract<OutboundPayload, {
+        op: K;
+    }>) => boolean, timeout?: number): Promise<Extract<OutboundPayload, {
+        op: K;
+    }>>;
+    /**
+     * Wait for a REST request from a client
+     * @param {string} method The http method
+     * @param {string|RegExp} path The path to wait for, including the query string
+     * @param {number} [timeout=2000] The time in ms to wait
+     * @returns {Promise<MockRequest>} The request
+     */
+    waitForRequest(method: string, path: string | RegExp, timeout?: number): Promise<MockRequest>;
+    /**
+     * Wait for a client to connect
+     * @param {number} [timeout=2000] The time in ms to wait
+     * @returns {Promise<Object>} The headers of the connection
+     */
+    waitForConnection(timeout?: number): Promise<http.IncomingHttpHeaders>;
+}
+export default MockLavalink;
@@ -0,0 +1,29 @@
+import Lavalink from './Lavalink';
+/**
+ * Information about the player a node is selected for
+ */
+export interface NodeSelectionContext {
+    region?: string;
+    guildId?: string;
+    tags?: string[];
+}
+/**
+ * Picks a node out of the available nodes, the nodes are already filtered by region, tags and priority
+ */
+export declare type NodeSelector = (nodes: Lavalink[], context: NodeSelectionContext) => Lavalink | Promise<Lavalink>;
+/**
+ * The names of the built-in node selection strategies
+ */
+export declare type NodeSelectionStrategy = 'load' | 'players' | 'playingPlayers' | 'penalty' | 'roundRobin';
+/**
+ * Get the penalty score of a node, based on the penalties used by the Lavalink load balancer
+ * @param {Lavalink} node The node
+ * @returns {number}
+ */
+export declare function nodePenalty(node: Lavalink): number;
+/**
+ * Create a node selector
+ * @param {NodeSelectionStrategy|NodeSelector} [strategy='load'] A built-in strategy name or a custom selector
+ * @returns {NodeSelector}
+ */
+export declare function createNodeSelector(strategy?: NodeSelectionStrategy | NodeSelector): NodeSelector;
@@ -1,8 +1,78 @@
 /// <reference types="node" />
-import { Shard } from "eris";
-import { EventEmitter } from "events";
-import PlayerManager from "./PlayerManager";
-import Lavalink from "./Lavalink";
+import { Shard } from 'eris';
+import { EventEmitter } from 'events';
+import PlayerManager from './PlayerManager';
+import Lavalink, { Track } from './Lavalink';
+import Queue from './Queue';
+import { PlayerSnapshot } from './Storage';
+import { DecodedTrackInfo } from './TrackCodec';
+import { AutoplayResolver } from './Autoplay';
+import { FilterPreset } from './Filters';
+import { RecoveryEvent, RecoveryOptions, RecoveryPolicy } from './Recovery';
+import { EqualizerBand, EventPayload, ExceptionSeverity, Filters, OutboundPayload, PlayerState, PlayerUpdatePayload, PlayOptions, TrackEndEvent, TrackExceptionEvent, TrackStartEvent, TrackStuckEvent, VoiceUpdatePayload, WebSocketClosedEvent } from './Protocol';
+/**
+ * A message from Lavalink about a player
+ */
+export declare type PlayerMessage = PlayerUpdatePayload | EventPayload;
+/**
+ * A command waiting to be acknowledged by Lavalink
+ * @private
+ */
+interface PendingCommand {
+    op: string;
+    match: (message: PlayerMessage) => boolean | Error;
+    resolve: (message: PlayerMessage) => void;
+    reject: (err: Error) => void;
+    timer: NodeJS.Timeout;
+}
+/**
+ * Emitted before a player leaves on its own, call cancel to stay connected
+ */
+export interface AutoLeaveEvent {
+    reason: 'idle' | 'alone';
+    cancelled: boolean;
+    cancel(): void;
+}
+/**
+ * Emitted when Lavalink reports that the Discord voice websocket closed
+ */
+export interface VoiceClosedEvent {
+    code: number;
+    reason: string;
+    byRemote: boolean;
+}
+/**
+ * The events emitted by a player
+ */
+export interface PlayerEvents {
+    connect: [];
+    ready: [];
+    disconnect: [any?];
+    reconnect: [];
+    move: [Lavalink];
+    resumed: [];
+    end: [TrackEndEvent | TrackStuckEvent];
+    error: [TrackExceptionEvent];
+    warn: [string];
+    trackStart: [string];
+    start: [string];
+    voiceClosed: [VoiceClosedEvent];
+    recovery: [RecoveryEvent];
+    queueEnd: [];
+    trackProgress: [number];
+    autoplay: [Track];
+    autoLeave: [AutoLeaveEvent];
+    alonePause: [];
+    aloneResume: [];
+    stateChange: [];
+}
+interface Player {
+    on<K extends keyof PlayerEvents>(event: K, listener: (...args: PlayerEvents[K]) => void): this;
+    once<K extends keyof PlayerEvents>(event: K, listener: (...args: PlayerEvents[K]) => void): this;
+    off<K extends keyof PlayerEvents>(event: K, listener: (...args: PlayerEvents[K]) => void): this;
+    removeListener<K extends keyof PlayerEvents>(event: K, listener: (...args: PlayerEvents[K]) => void): this;
+    emit<K extends keyof PlayerEvents>(event: K, ...args: PlayerEvents[K]): boolean;
+}
 /**
  * Represents a player/voice connection to Lavalink
  * @extends EventEmitter
@@ -15,8 +85,23 @@ import Lavalink from "./Lavalink";
  * @prop {string} channelId Channel ID
  * @prop {boolean} ready If the connection is ready
  * @prop {boolean} playing If the player is playing
- * @prop {object} state The lavalink player state
+ * @prop {object} state The lavalink player state, its time is the local time the state was received
  * @prop {string} track The lavalink track to play
+ * @prop {Queue} queue The track queue, null unless enabled
+ * @prop {Filters} filters The currently applied audio filters
+ * @prop {number} volume The volume of the player, the target volume during a fade
+ * @prop {object} voiceUpdate The last voice update sent to Lavalink
+ * @prop {number} position The interpolated track position in ms
+ * @prop {number} progressInterval The interval in ms of trackProgress events, 0 if disabled
+ * @prop {object} currentTrackInfo The info decoded from the current track, null if there is none
+ * @prop {boolean} autoplay Whether to play a related track when a track finishes and nothing is queued
+ * @prop {Function} autoplayResolver Finds the related track to play
+ * @prop {string[]} autoplayHistory Identifiers of recently played tracks, excluded from autoplay
+ * @prop {number} fadeIn The time in ms new tracks fade in, 0 if disabled
+ * @prop {number} fadeOut The time in ms the player fades out before stopping or pausing, 0 if disabled
+ * @prop {number} crossfade The time in ms queued tracks fade out before their end and the next track fades in, 0 if disabled
+ * @prop {RecoveryPolicy} recovery How the player recovers from stuck and failed tracks, null if disabled
+ * @prop {number} commandTimeout The time in ms to wait for Lavalink to acknowledge a command
  */
 declare class Player extends EventEmitter {
     id: string;
@@ -29,15 +114,36 @@ declare class Player extends EventEmitter {
     playing: boolean;
     paused: boolean;
     shard: Shard;
-    state: {
-        position?: number;
-    };
+    state: PlayerState;
     track: string;
-    sendQueue: any[];
+    sendQueue: OutboundPayload[];
     timestamp: number;
     lastTrack: string;
-    playOptions: object;
+    playOptions: PlayOptions;
     options: Object;
+    queue: Queue;
+    filters: Filters;
+    volume: number;
+    voiceUpdate: VoiceUpdatePayload;
+    progressInterval: number;
+    progressTimer: NodeJS.Timeout;
+    autoplay: boolean;
+    autoplayResolver: AutoplayResolver;
+    autoplayHistory: string[];
+    fadeIn: number;
+    fadeOut: number;
+    crossfade: number;
+    recovery: RecoveryPolicy;
+    commandTimeout: number;
+    private pendingCommands;
+    private outputVolume;
+    private fade;
+    private crossfadeTimer;
+    private crossfading;
+    private decodedTrack;
+    private failure;
+    private recoveryTrack;
+    private recoveryAttempts;
     /**
      * Player constructor
      * @param {string} id Guild ID
@@ -49,6 +155,15 @@ declare class Player extends EventEmitter {
      * @param {Lavalink} data.node The Lavalink node associated with this player
      * @param {Shard} data.shard The eris shard associated with this player
      * @param {Object} [data.options] Additional passed from the user to the player
+     * @param {boolean} [data.queue=false] Whether to attach a track queue to the player
+     * @param {number} [data.progressInterval=0] The interval in ms of trackProgress events, 0 disables them
+     * @param {boolean} [data.autoplay=false] Whether to play a related track when a track finishes and nothing is queued
+     * @param {Function} [data.autoplayResolver] Finds the related track to play, searches through the node by default
+     * @param {number} [data.fadeIn=0] The time in ms new tracks fade in
+     * @param {number} [data.fadeOut=0] The time in ms the player fades out before stopping or pausing
+     * @param {number} [data.crossfade=0] The time in ms queued tracks fade out before their end and the next track fades in
+     * @param {Object} [data.recovery] The recovery policy options, see createRecoveryPolicy, recovery is disabled if omitted
+     * @param {number} [data.commandTimeout=10000] The time in ms to wait for Lavalink to acknowledge a command
      */
     constructor(id: string, options: {
         channelId: string;
@@ -58,6 +173,15 @@ declare class Player extends EventEmitter {
         node: Lavalink;
         shard: Shard;
         options?: Object;
+        queue?: boolean;
+        progressInterval?: number;
+        autoplay?: boolean;
+        autoplayResolver?: AutoplayResolver;
+        fadeIn?: number;
+        fadeOut?: number;
+        crossfade?: number;
+        recovery?: RecoveryOptions;
+        commandTimeout?: number;
     });
     /**
      * Check the event queue
@@ -66,16 +190,16 @@ declare class Player extends EventEmitter {
     checkEventQueue(): void;
     /**
      * Queue an event to be sent to Lavalink
-     * @param {*} data The payload to queue
+     * @param {OutboundPayload} data The payload to queue
      * @private
      */
-    queueEvent(data: any): Promise<void>;
+    queueEvent(data: OutboundPayload): Promise<void>;
     /**
      * Send a payload to Lavalink
-     * @param {*} data The payload to send
+     * @param {OutboundPayload} data The payload to send
      * @private
      */
-    sendEvent(data: any): Promise<void>;
+    sendEvent(data: OutboundPayload): Promise<void>;
     /**
      * Connect to the Lavalink node
      * @param {Object} data The data used to connect
@@ -87,7 +211,11 @@ declare class Player extends EventEmitter {
     connect(data: {
         guildId: string;
         sessionId: string;
-        event: Object;
+        event: {
+            endpoint: string;
+            guild_id: string;
+            token: string;
+        };
     }): void;
     /**
      * Disconnect from Lavalink
@@ -97,36 +225,130 @@ declare class Player extends EventEmitter {
     disconnect(msg?: any): void;
     _disconnect(): void;
     /**
-     *
-     * @param {{band: number, gain: number}} options The bands range from 0 to 15 and the gain ranges from -0.25 to 1, 0 is the default gain.
+     * Set equalizer bands, kept for backwards compatibility, see setEqualizer
+     * @param {EqualizerBand|EqualizerBand[]} options The bands range from 0 to 14 and the gain ranges from -0.25 to 1, 0 is the default gain.
      * @memberof Player
      */
-    setEQ(options: {
-        band: number;
-        gain: number;
-    }): void;
+    setEQ(options: EqualizerBand | EqualizerBand[]): void;
+    /**
+     * Set equalizer bands, merged with the bands already applied
+     * @param {EqualizerBand[]|number[]} bands The bands to set, or up to 15 gains indexed by band
+     * @returns {void}
+     */
+    setEqualizer(bands: EqualizerBand[] | number[]): void;
+    /**
+     * Set the timescale filter
+     * @param {Object} timescale The speed, pitch and rate, 1 is the default for each
+     * @returns {void}
+     */
+    setTimescale(timescale: Filters['timescale']): void;
+    /**
+     * Set the karaoke filter
+     * @param {Object} karaoke The level, monoLevel, filterBand and filterWidth
+     * @returns {void}
+     */
+    setKaraoke(karaoke: Filters['karaoke']): void;
+    /**
+     * Set the tremolo filter
+     * @param {Object} tremolo The frequency and depth
+     * @returns {void}
+     */
+    setTremolo(tremolo: Filters['tremolo']): void;
+    /**
+     * Set the vibrato filter
+     * @param {Object} vibrato The frequency and depth
+     * @returns {void}
+     */
+    setVibrato(vibrato: Filters['vibrato']): void;
+    /**
+     * Set the rotation filter
+     * @param {Object} rotation The rotationHz
+     * @returns {void}
+     */
+    setRotation(rotation: Filters['rotation']): void;
+    /**
+     * Set the distortion filter
+     * @param {Object} distortion The sin, cos and tan offsets and scales
+     * @returns {void}
+     */
+    setDistortion(distortion: Filters['distortion']): void;
+    /**
+     * Set the channel mix filter
+     * @param {Object} channelMix The leftToLeft, leftToRight, rightToLeft and rightToRight factors
+     * @returns {void}
+     */
+    setChannelMix(channelMix: Filters['channelMix']): void;
+    /**
+     * Set the low pass filter
+     * @param {Object} lowPass The smoothing
+     * @returns {void}
+     */
+    setLowPass(lowPass: Filters['lowPass']): void;
+    /**
+     * Set the volume filter
+     * @param {number} volume The volume from 0 to 5, 1 is the default
+     * @returns {void}
+     */
+    setFilterVolume(volume: number): void;
+    /**
+     * Apply a built-in filter preset on top of the current filters
+     * @param {FilterPreset} preset One of bassboost, nightcore, vaporwave or 8D
+     * @returns {void}
+     */
+    applyPreset(preset: FilterPreset): void;
+    /**
+     * Compose filters with the currently applied ones, a null value removes that filter
+     * @param {Filters} filters The filters to apply
+     * @returns {void}
+     */
+    updateFilters(filters: Filters): void;
+    /**
+     * Replace all applied filters
+     * @param {Filters} filters The filters to apply
+     * @returns {void}
+     */
+    setFilters(filters: Filters): void;
+    /**
+     * Remove all filters
+     * @returns {void}
+     */
+    clearFilters(): void;
+    /**
+     * Get a copy of the currently applied filters
+     * @returns {Filters}
+     */
+    getFilters(): Filters;
+    /**
+     * Send the applied filters to Lavalink
+     * @private
+     */
+    sendFilters(): void;
     /**
      * destroy the player
      */
     destroy(): void;
     /**
-     * Play a Lavalink track
+     * Play a Lavalink track, fades in if fadeIn is set or when crossfading
      * @param {string} track The track to play
-     * @param {Object} [options] Optional options to send
-     * @returns {void}
+     * @param {PlayOptions} [options] Optional options to send
+     * @returns {Promise<TrackStartEvent>} Resolves when Lavalink starts the track, rejects with a PlaybackError if it fails or another track is played first and with a CommandTimeoutError after commandTimeout
      */
-    play(track: string, options?: object): void;
+    play(track: string, options?: PlayOptions): Promise<TrackStartEvent>;
     /**
-     * Stop playing
-     * @returns {void}
+     * Stop playing, fades out first if fadeOut is set
+     * @param {Object} [options] Stop options
+     * @param {number} [options.fade] The time in ms to fade out, defaults to fadeOut
+     * @returns {Promise<void>} Resolves when stopped, the player keeps playing if the fade is interrupted
      */
-    stop(): void;
+    stop(options?: {
+        fade?: number;
+    }): Promise<void>;
     /**
-     * Update player state
-     * @param {Object} state The state object received from Lavalink
+     * Update player state, the time of the state is replaced with the local receipt time so clock skew between the bot and the node does not affect the position
+     * @param {PlayerState} state The state object received from Lavalink
      * @private
      */
-    stateUpdate(state: object): void;
+    stateUpdate(state: PlayerState): void;
     /**
      * Used to pause/resume the player
      * @param {boolean} pause Set pause to true/false
@@ -134,45 +356,178 @@ declare class Player extends EventEmitter {
      */
     setPause(pause: boolean): void;
     /**
-     * Used to pause the player
+     * Used to pause the player, fades out first if fadeOut is set
+     * @param {Object} [options] Pause options
+     * @param {number} [options.fade] The time in ms to fade out, defaults to fadeOut
+     * @returns {Promise<void>} Resolves when paused, the player keeps playing if the fade is interrupted
      */
-    pause(): void;
+    pause(options?: {
+        fade?: number;
+    }): Promise<void>;
     /**
-     * Used to resume the player
+     * Used to resume the player, fades in if fadeIn is set
+     * @param {Object} [options] Resume options
+     * @param {number} [options.fade] The time in ms to fade in, defaults to fadeIn
+     * @returns {Promise<void>} Resolves when the fade in is done
      */
-    resume(): void;
+    resume(options?: {
+        fade?: number;
+    }): Promise<void>;
     /**
      * Used for seeking to a track position
      * @param {number} position The position to seek to
-     * @returns {void}
+     * @returns {Promise<PlayerUpdatePayload>} Resolves with the first player update near the new position, rejects with a PlaybackError if another seek is sent first and with a CommandTimeoutError after commandTimeout.
+     * Lavalink sends no player updates for paused players, so a seek while paused resolves with the local state once it is sent
      */
-    seek(position: number): void;
+    seek(position: number): Promise<PlayerUpdatePayload>;
     /**
-     * Set the volume of the player
+     * Wait for Lavalink to acknowledge a command, the player calls match with every player update and event it receives
+     * @param {string} op The op of the command, used in errors and to cancel commands
+     * @param {Function} match Returns true when the message acknowledges the command, an Error to reject or false to keep waiting
+     * @param {number} [timeout] The time in ms to wait, defaults to commandTimeout
+     * @returns {Promise<PlayerMessage>} The message that acknowledged the command
+     */
+    expect(op: string, match: (message: PlayerMessage) => boolean | Error, timeout?: number): Promise<PlayerMessage>;
+    /**
+     * Called with every player update and event of the player, settles the commands it acknowledges
+     * @param {PlayerMessage} message The message from Lavalink
+     * @private
+     */
+    acknowledge(message: PlayerMessage): void;
+    /**
+     * Reject pending commands
+     * @param {Error} err The error to reject with
+     * @param {string} [op] Only reject commands with this op
+     * @private
+     */
+    cancelCommands(err: Error, op?: string): void;
+    /**
+     * Resolve or reject a pending command
+     * @param {PendingCommand} command The command
+     * @param {PlayerMessage|Error} result The acknowledging message or the error
+     * @private
+     */
+    settleCommand(command: PendingCommand, result: PlayerMessage | Error): void;
+    /**
+     * Set the volume of the player, cancels a fade in progress
      * @param {number} volume The volume level to set
      * @returns {void}
      */
     setVolume(volume: number): void;
+    /**
+     * Gradually change the volume
+     * @param {number} volume The volume to fade to, from 0 to 1000
+     * @param {number} duration The duration of the fade in ms
+     * @returns {Promise<boolean>} Resolves with false if the fade was interrupted
+     */
+    fadeTo(volume: number, duration: number): Promise<boolean>;
+    /**
+     * Gradually change the volume sent to Lavalink without changing the player volume
+     * @param {number} volume The volume to fade to
+     * @param {number} duration The duration of the fade in ms
+     * @returns {Promise<boolean>} Resolves with false if the fade was interrupted
+     * @private
+     */
+    fadeOutput(volume: number, duration: number): Promise<boolean>;
+    /**
+     * Stop the fade in progress
+     * @param {boolean} [completed=false] Whether the fade completed
+     * @private
+     */
+    cancelFade(completed?: boolean): void;
+    /**
+     * Send the player volume to Lavalink if a fade left it at another level
+     * @private
+     */
+    restoreOutput(): void;
+    /**
+     * Send a volume to Lavalink
+     * @param {number} volume The volume
+     * @private
+     */
+    sendVolume(volume: number): void;
+    /**
+     * Move the player to another node, keeping the track, position, pause state, volume and filters
+     * @param {Lavalink} node The node to move to
+     * @returns {void}
+     * @private
+     */
+    moveNode(node: Lavalink): void;
     /**
      * Called on track end
-     * @param {Object} message The end reason
+     * @param {TrackEndEvent} message The end reason
      * @private
      */
-    onTrackEnd(message: {
-        reason: string;
-    }): void;
+    onTrackEnd(message: TrackEndEvent): void;
+    /**
+     * Play a track related to the one that finished
+     * @param {string} track The track that finished
+     * @returns {Promise<boolean>} False if no related track was found
+     * @private
+     */
+    playRelated(track: string): Promise<boolean>;
+    /**
+     * Remember a played track so autoplay doesn't repeat it
+     * @param {string} identifier The track identifier
+     * @private
+     */
+    addAutoplayHistory(identifier: string): void;
+    /**
+     * Play the next track of the queue
+     * @param {string} current The track that just ended
+     * @param {boolean} [skip] Ignore the track loop mode
+     * @returns {boolean} False if there is nothing left to play
+     * @private
+     */
+    advanceQueue(current: string, skip?: boolean): boolean;
+    /**
+     * Skip to the next track of the queue, stops the player if the queue is empty
+     * @returns {boolean} False if there was no track to skip to
+     */
+    skip(): boolean;
+    /**
+     * Play the previous track from the queue history
+     * @returns {boolean} False if there is no previous track
+     */
+    previous(): boolean;
+    /**
+     * Called when Lavalink starts playing a track
+     * @param {TrackStartEvent} message The start event
+     * @private
+     */
+    onTrackStart(message: TrackStartEvent): void;
+    /**
+     * Called when the Discord voice websocket of the player closed
+     * @param {WebSocketClosedEvent} message The close event
+     * @private
+     */
+    onWebSocketClosed(message: WebSocketClosedEvent): void;
     /**
      * Called on track exception
-     * @param {Object} message The exception encountered
+     * @param {TrackExceptionEvent} message The exception encountered
      * @private
      */
-    onTrackException(message: object): void;
+    onTrackException(message: TrackExceptionEvent): void;
     /**
      * Called on track stuck
-     * @param {Object} message The message if exists
+     * @param {TrackStuckEvent} message The message if exists
+     * @private
+     */
+    onTrackStuck(message: TrackStuckEvent): void;
+    /**
+     * Recover the current track according to the recovery policy
+     * @param {string} cause Why the track is recovered, stuck or exception
+     * @param {string} [severity] The severity of the exception
+     * @returns {boolean} False if recovery is disabled
      * @private
      */
-    onTrackStuck(message: object): void;
+    recoverTrack(cause: 'stuck' | 'exception', severity?: ExceptionSeverity): boolean;
+    /**
+     * Run a recovery action, falls back when no other node is available
+     * @param {RecoveryEvent} event The recovery to run
+     * @private
+     */
+    runRecovery(event: RecoveryEvent): Promise<boolean>;
     /**
      * Switch voice channel
      * @param {string} channelId Called when switching channels
@@ -180,6 +535,39 @@ declare class Player extends EventEmitter {
      * @returns {void}
      */
     switchChannel(channelId: string, reactive?: boolean): void;
+    /**
+     * The track position in ms, interpolated from the last player update and accounting for pauses, seeks and timescale
+     */
+    get position(): number;
+    /**
+     * The playback speed of the timescale filter
+     * @private
+     */
+    playbackSpeed(): number;
+    /**
+     * The info decoded from the current track, null if there is no track or it can't be decoded
+     */
+    get currentTrackInfo(): DecodedTrackInfo;
+    /**
+     * Called when the player state changed
+     * @private
+     */
+    changed(): void;
+    /**
+     * Start or stop the trackProgress events depending on the player state
+     * @private
+     */
+    updateProgressTimer(): void;
+    /**
+     * Schedule the fade out of the current track when crossfading into a queued track
+     * @private
+     */
+    updateCrossfadeTimer(): void;
+    /**
+     * Get a snapshot of the player state, used to persist and restore the player
+     * @returns {PlayerSnapshot}
+     */
+    snapshot(): PlayerSnapshot;
     getTimestamp(): number;
     /**
      * Update the bot's voice state
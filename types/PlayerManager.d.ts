@@ -3,9 +3,56 @@
  * DISCLAIMER: We reuse some eris code
  */
 /// <reference types="node" />
-import { Client } from "eris";
-import Lavalink from "./Lavalink";
-import Player from "./Player";
+import { Client, Member, RawPacket, Shard, VoiceChannel } from 'eris';
+import Lavalink, { HeartbeatOptions, LavalinkOptions, LoadTracksResponse, ReconnectPolicy, Track, TrackInfo } from './Lavalink';
+import Player from './Player';
+import { InboundPayload, WebSocketClosedEvent } from './Protocol';
+import { NodeSelectionStrategy, NodeSelector } from './NodeSelection';
+import { PlayerSnapshot, StorageAdapter } from './Storage';
+import { AutoplayResolver } from './Autoplay';
+import Metrics, { MetricsSnapshot } from './Metrics';
+import { RecoveryOptions } from './Recovery';
+/**
+ * A Discord voice server update, with the session id and shard added by the caller
+ */
+export interface VoiceServerUpdate {
+    guild_id: string;
+    token: string;
+    endpoint: string;
+    session_id?: string;
+    shard?: Shard;
+}
+/**
+ * How players reconnect their voice session after a recoverable close, the delay doubles with every attempt
+ */
+export interface VoiceReconnectOptions {
+    maxAttempts: number;
+    baseDelay: number;
+    maxDelay: number;
+}
+/**
+ * The part of an AbortSignal used to cancel a join
+ */
+export interface JoinSignal {
+    aborted: boolean;
+    addEventListener(type: 'abort', listener: () => void): void;
+    removeEventListener(type: 'abort', listener: () => void): void;
+}
+/**
+ * A join waiting for the voice server update
+ * @private
+ */
+interface PendingJoin {
+    channelId: string;
+    hostname: string;
+    options: Object;
+    player: Player | null;
+    node: Lavalink;
+    promise: Promise<Player>;
+    res: (player: Player) => void;
+    rej: (err: Error) => void;
+    timeout: NodeJS.Timeout;
+}
 /**
  * Player Manager
  * @extends Map
@@ -13,6 +60,7 @@ import Player from "./Player";
  * @prop {object} client The eris client
  * @prop {object} defaultRegions The default region config
  * @prop {object} regions The region config being used
+ * @prop {Metrics} metrics The recorded metrics, see getMetrics
  */
 declare class PlayerManager {
     client: Client;
@@ -20,16 +68,7 @@ declare class PlayerManager {
     nodes: Map<string | number, Lavalink>;
     options: any;
     pendingGuilds: {
-        [s: string]: {
-            channelId: string;
-            hostname?: string;
-            options: Object | {};
-            player: Player | null;
-            node: Lavalink;
-            res: (value?: Player | PromiseLike<Player>) => void;
-            rej: any;
-            timeout: NodeJS.Timeout;
-        };
+        [s: string]: PendingJoin;
     };
     defaultRegions: {
         asia: string[];
@@ -37,38 +76,108 @@ declare class PlayerManager {
         us: string[];
     };
     shardReadyListener: (id: number) => void;
+    rawWSListener: (packet: RawPacket, id: number) => void;
+    voiceChannelListener: (member: Member, ...channels: VoiceChannel[]) => void;
+    voiceSessions: Map<string, {
+        sessionId: string;
+        channelId: string;
+    }>;
+    pendingServerUpdates: Map<string, VoiceServerUpdate>;
     failoverQueue: Function[];
     failoverRate: number;
     failoverLimit: number;
     regions: {
         [s: string]: string[];
     };
+    resumeTimeouts: Map<string, NodeJS.Timeout>;
+    nodeSelector: NodeSelector;
+    idleTimeouts: Map<string, NodeJS.Timeout>;
+    aloneTimeouts: Map<string, NodeJS.Timeout>;
+    alonePaused: Set<string>;
+    voiceReconnectOptions: VoiceReconnectOptions;
+    voiceReconnects: Map<string, {
+        attempts: number;
+        lastAttemptAt: number;
+        timer: NodeJS.Timeout;
+    }>;
+    metrics: Metrics;
     /**
      * PlayerManager constructor
      * @param {Client} client Eris client
      * @param {Object[]} nodes The Lavalink nodes to connect to
      * @param {Object} [options] Setup options
+     * @param {number} [options.numShards] The number of shards the bot is running
+     * @param {string} [options.userId] The user id of the bot
      * @param {string} [options.defaultRegion] The default region
      * @param {number} [options.failoverRate=250] Failover rate in ms
      * @param {number} [options.failoverLimit=1] Number of connections to failover per rate limit
      * @param {Object} [options.player] Optional Player class to replace the default Player
-     * @param {number} [options.reconnectThreshold=2000] The amount of time to skip ahead in a song when reconnecting in ms
+     * @param {number} [options.reconnectThreshold] Deprecated, the interpolated player position is used when reconnecting
      * @param {Object} [options.regions] Region mapping object
+     * @param {boolean} [options.queue=false] Whether to attach a track queue to new players
+     * @param {string} [options.resumeKey] The key used to resume node sessions, persist it to resume after a restart
+     * @param {number} [options.resumeTimeout=60] The time in seconds Lavalink keeps a session alive after a disconnect
+     * @param {string|Function} [options.nodeSelection='load'] The node selection strategy, one of load, players, playingPlayers, penalty, roundRobin or a custom selector
+     * @param {Object} [options.reconnect] The reconnect backoff policy of the nodes, see Lavalink
+     * @param {Object} [options.heartbeat] The health check options of the nodes, see Lavalink
+     * @param {boolean} [options.voiceEvents=true] Whether to handle voice state and server updates from the client gateway events
+     * @param {StorageAdapter} [options.storage] Storage adapter used to persist player state, see restore
+     * @param {number} [options.progressInterval=0] The interval in ms of player trackProgress events, 0 disables them
+     * @param {boolean} [options.autoplay=false] Whether players play a related track when a track finishes and nothing is queued
+     * @param {Function} [options.autoplayResolver] Finds the related track to play, searches through the node by default
+     * @param {number} [options.idleTimeout=0] Leave after this many seconds without a track, 0 disables it
+     * @param {number} [options.aloneTimeout=0] Leave after this many seconds alone in the voice channel, 0 disables it
+     * @param {boolean} [options.pauseWhenAlone=false] Pause while alone in the voice channel and resume when someone joins
+     * @param {number} [options.fadeIn=0] The time in ms new tracks fade in
+     * @param {number} [options.fadeOut=0] The time in ms players fade out before stopping or pausing
+     * @param {number} [options.crossfade=0] The time in ms queued tracks fade out before their end and the next track fades in
+     * @param {Object} [options.recovery] How players recover from stuck and failed tracks, see createRecoveryPolicy, disabled if omitted
+     * @param {number} [options.commandTimeout=10000] The time in ms players wait for Lavalink to acknowledge play and seek
+     * @param {number} [options.joinTimeout=10000] The time in ms to wait for the voice server update when joining
+     * @param {number} [options.restoreTimeout=60000] The time in ms restore waits for the shard of a guild and for a connected node
+     * @param {Object} [options.voiceReconnect] How players reconnect their voice session after the close codes 4006, 4009 and 4015
+     * @param {number} [options.voiceReconnect.maxAttempts=3] Reconnects in a row after which the player is disconnected
+     * @param {number} [options.voiceReconnect.baseDelay=1000] The delay in ms before the first reconnect, doubled for every further attempt
+     * @param {number} [options.voiceReconnect.maxDelay=10000] The maximum delay in ms
+     * @param {Object} [options.metrics] Metrics options
+     * @param {number} [options.metrics.historySize=60] The number of stats samples kept per node
      */
-    constructor(client: Client, nodes: {
-        host: string;
-        port: number;
-        region: string;
-        password: string;
-    }[], options?: {
+    constructor(client: Client, nodes: Omit<LavalinkOptions, 'numShards' | 'userId'>[], options?: {
+        numShards?: number;
+        userId?: string;
         defaultRegion?: string;
         failoverRate?: number;
         failoverLimit?: number;
         player?: Player;
         reconnectThreshold?: number;
-        regions: {
+        regions?: {
             [s: string]: string[];
         };
+        queue?: boolean;
+        resumeKey?: string;
+        resumeTimeout?: number;
+        nodeSelection?: NodeSelectionStrategy | NodeSelector;
+        reconnect?: Partial<ReconnectPolicy>;
+        heartbeat?: Partial<HeartbeatOptions>;
+        voiceEvents?: boolean;
+        storage?: StorageAdapter;
+        progressInterval?: number;
+        autoplay?: boolean;
+        autoplayResolver?: AutoplayResolver;
+        idleTimeout?: number;
+        aloneTimeout?: number;
+        pauseWhenAlone?: boolean;
+        fadeIn?: number;
+        fadeOut?: number;
+        crossfade?: number;
+        recovery?: RecoveryOptions;
+        commandTimeout?: number;
+        joinTimeout?: number;
+        restoreTimeout?: number;
+        voiceReconnect?: Partial<VoiceReconnectOptions>;
+        metrics?: {
+            historySize?: number;
+        };
     });
     /**
      * Create a Lavalink node
@@ -79,16 +188,26 @@ declare class PlayerManager {
      * @param {number} options.numShards The number of shards the bot is running
      * @param {string} options.userId The user id of the bot
      * @param {string} options.password The password for the Lavalink node
+     * @param {boolean} [options.secure=false] Whether to use wss and https
+     * @param {string} [options.path] A path prefix, e.g. when the node is behind a reverse proxy
+     * @param {Object} [options.headers] Additional headers sent with the websocket and REST requests
+     * @param {string} [options.clientName='eris-lavalink'] The name sent as Client-Name header
+     * @param {Object} [options.tls] TLS options for secure connections, ca and rejectUnauthorized
+     * @param {number} [options.restPort] The port of the REST api, defaults to the websocket port
+     * @param {boolean} [options.restSecure] Whether to use https for the REST api, defaults to options.secure
+     * @param {string} [options.resumeKey] The key used to resume the session
+     * @param {number} [options.resumeTimeout=60] The time in seconds Lavalink keeps the session alive after a disconnect
+     * @param {number} [options.weight=1] The relative capacity of the node
+     * @param {number} [options.priority=0] Nodes with a higher priority are selected before any other node
+     * @param {string[]} [options.tags] Tags used to pin players to this node
+     * @param {Object} [options.reconnect] The reconnect backoff policy
+     * @param {Object} [options.heartbeat] The health check options
+     * @param {Object} [options.buffer] The buffer of commands sent while the node is disconnected, size and ttl
+     * @param {number} [options.version] The protocol version, 3 or 4, detected on connect if omitted
+     * @param {number} [options.requestTimeout=10000] The time in ms after which a REST request is aborted
      * @returns {void}
      */
-    createNode(options: {
-        host: string;
-        port: number;
-        region: string;
-        numShards: number;
-        userId: string;
-        password: string;
-    }): void;
+    createNode(options: LavalinkOptions): void;
     /**
      * Remove a Lavalink node
      * @param {string} host The hostname of the node
@@ -118,61 +237,282 @@ declare class PlayerManager {
      * @private
      */
     onError(err: string | Error | Lavalink): void;
+    /**
+     * Called when a warning is received from a Lavalink node
+     * @param {string} message The warning received
+     * @private
+     */
+    onWarn(message: string): void;
     /**
      * Called when a node disconnects
      * @param {Lavalink} node The Lavalink node
      * @private
      */
     onDisconnect(node: Lavalink): void;
+    /**
+     * Called when a node connects
+     * @param {Lavalink} node The Lavalink node
+     * @private
+     */
+    onReady(node: Lavalink): void;
+    /**
+     * Move all players of a node to other nodes
+     * @param {Lavalink} node The Lavalink node
+     * @private
+     */
+    failoverPlayers(node: Lavalink): void;
     /**
      * Called when a shard readies
      * @param {number} id Shard ID
      * @private
      */
     shardReady(id: number): void;
+    /**
+     * Called on every gateway packet, used to track voice state and server updates
+     * @param {RawPacket} packet The raw gateway packet
+     * @param {number} id Shard ID
+     * @private
+     */
+    onRawWS(packet: RawPacket, id: number): void | Promise<void>;
+    /**
+     * Called when a voice state update is received, tracks the voice session of the bot
+     * @param {Object} data The voice state update
+     * @private
+     */
+    voiceStateUpdate(data: {
+        guild_id: string;
+        channel_id: string;
+        user_id: string;
+        session_id: string;
+    }): void;
+    /**
+     * Called when a voice server update is received from the gateway, waits for the voice session before connecting
+     * @param {VoiceServerUpdate} data The voice server update
+     * @private
+     */
+    onVoiceServer(data: VoiceServerUpdate): Promise<void>;
     /**
      * Switch the voice node of a player
      * @param {Player} player The Player instance
      * @param {boolean} leave Whether to leave the channel or not on our side
-     * @returns {void}
+     * @returns {Promise<boolean>} Resolves once the player rejoined, false if it could not rejoin and was disconnected
+     */
+    switchNode(player: Player, leave?: boolean): Promise<boolean>;
+    /**
+     * Move a player to another node
+     * @param {string} guildId The guild ID of the player
+     * @param {string} [host] The hostname of the node to move to, the ideal node is used if omitted
+     * @returns {Promise<Player>}
+     */
+    movePlayer(guildId: string, host?: string): Promise<Player>;
+    /**
+     * Stop sending new players to a node and move all of its players to other nodes
+     * @param {string} host The hostname of the node
+     * @returns {Promise<void>} Resolves when no players are left on the node
      */
-    switchNode(player: Player, leave?: boolean): void;
+    drainNode(host: string): Promise<void>;
     /**
      * Called when a message is received from the voice node
-     * @param {*} message The message received
+     * @param {Lavalink} node The node the message was received from
+     * @param {InboundPayload} message The message received
      * @private
      */
-    onMessage(message: any): boolean | void;
+    onMessage(node: Lavalink, message: InboundPayload): boolean | void | Promise<void>;
     /**
-     * Join a voice channel
+     * Called when the Discord voice websocket of a player closed, reconnects the voice session or cleans up the player depending on the close code
+     * @param {Player} player The player
+     * @param {WebSocketClosedEvent} message The close event
+     * @private
+     */
+    onVoiceClosed(player: Player, message: WebSocketClosedEvent): Promise<void>;
+    /**
+     * Cancel the scheduled voice reconnect of a guild and forget its attempts
+     * @param {string} guildId The guild ID
+     * @private
+     */
+    clearVoiceReconnect(guildId: string): void;
+    /**
+     * Join a voice channel, concurrent joins of the same guild share the pending join
      * @param {string} guildId The guild ID
      * @param {string} channelId The channel ID
      * @param {Object} options Join options
+     * @param {string} [options.node] The hostname of the node to use
+     * @param {string} [options.region] The region used to pick the node
+     * @param {string[]} [options.tags] Only use nodes that have all of these tags
+     * @param {number} [options.timeout] The time in ms to wait for the voice server update, defaults to the joinTimeout option
+     * @param {AbortSignal} [options.signal] Cancels the pending join
      * @param {Player} [player] Optionally pass an existing player
      * @returns {Promise<Player>}
      */
     join(guildId: string, channelId: string, options: {
         node?: any;
         region?: string;
+        tags?: string[];
+        timeout?: number;
+        signal?: JoinSignal;
     }, player: Player): Promise<Player>;
     /**
-     * Leave a voice channel
+     * Wait for the pending join of a guild, the join is cancelled when the signal aborts
      * @param {string} guildId The guild ID
-     * @returns {void}
+     * @param {string} channelId The channel ID, replaces the channel of the pending join
+     * @param {AbortSignal} [signal] The abort signal
+     * @returns {Promise<Player>}
+     * @private
+     */
+    joinPending(guildId: string, channelId: string, signal?: JoinSignal): Promise<Player>;
+    /**
+     * Pick up a player from a resumed session, e.g. after a restart with a persisted resume key
+     * @param {string} guildId The guild ID
+     * @param {string} channelId The channel ID the bot is connected to
+     * @param {string} host The hostname of the node holding the session
+     * @returns {Player}
+     */
+    resumePlayer(guildId: string, channelId: string, host: string): Player;
+    /**
+     * Leave a voice channel, cancels a pending join, disconnects from Discord and destroys the Lavalink player
+     * @param {string} guildId The guild ID
+     * @returns {Promise<void>}
      */
     leave(guildId: string): Promise<void>;
     /**
-     * Find the ideal voice node based on load and region
+     * Apply the idle and alone policies to a player
+     * @param {Player} player The player to watch
+     * @private
+     */
+    watchPlayer(player: Player): void;
+    /**
+     * Start or cancel the idle timeout of a player
+     * @param {Player} player The player
+     * @private
+     */
+    checkIdle(player: Player): void;
+    /**
+     * Check whether the bot is alone in the voice channel of a player, pauses the player or starts the alone timeout
+     * @param {string} guildId The guild ID
+     * @private
+     */
+    checkAlone(guildId: string): void;
+    /**
+     * Leave the voice channel of a player unless a listener of the autoLeave event cancels it
+     * @param {Player} player The player
+     * @param {string} reason Either idle or alone
+     * @private
+     */
+    autoLeave(player: Player, reason: 'idle' | 'alone'): void;
+    /**
+     * Cancel the idle and alone timeouts of a guild
+     * @param {string} guildId The guild ID
+     * @private
+     */
+    clearAutoLeave(guildId: string): void;
+    /**
+     * Save the state of a player through the storage adapter whenever it changes
+     * @param {Player} player The player to persist
+     * @private
+     */
+    persistPlayer(player: Player): void;
+    /**
+     * Delete the saved state of a player
+     * @param {string} guildId The guild ID
+     * @private
+     */
+    deleteSnapshot(guildId: string): void;
+    /**
+     * Call the storage adapter, errors are emitted on the client
+     * @param {Function} fn The call to make
+     * @private
+     */
+    callStorage(fn: (storage: StorageAdapter) => void | Promise<void>): void;
+    /**
+     * Restore the players saved through the storage adapter, waits for the shards of the guilds to be ready and for a connected node.
+     * Snapshots are only deleted when their guild is unknown, other failures keep them for the next restore
+     * @returns {Promise<Player[]>} The restored players
+     */
+    restore(): Promise<Player[]>;
+    /**
+     * Rejoin the channel of a snapshot and resume its track
+     * @param {PlayerSnapshot} snapshot The saved player state
+     * @private
+     */
+    restoreSnapshot(snapshot: PlayerSnapshot): Promise<Player>;
+    /**
+     * Wait until the shard of a guild is ready
+     * @param {string} guildId The guild ID
+     * @param {number} timeout The time in ms to wait
+     * @private
+     */
+    waitForGuildShard(guildId: string, timeout: number): Promise<Shard>;
+    /**
+     * Wait until a node is connected and takes new players
+     * @param {number} timeout The time in ms to wait
+     * @private
+     */
+    waitForNode(timeout: number): Promise<void>;
+    /**
+     * Find the ideal voice node based on region, tags, priority and the node selection strategy
      * @param {string} region Guild region
-     * @returns {Lavalink} node Node with the lowest load for a region
+     * @param {Object} [context] Additional selection info
+     * @param {string} [context.guildId] The guild the node is selected for
+     * @param {string[]} [context.tags] Only use nodes that have all of these tags
+     * @param {string[]} [context.exclude] Hostnames of nodes not to use
+     * @returns {Lavalink} node The selected node for a region
+     */
+    findIdealNode(region: string, context?: {
+        guildId?: string;
+        tags?: string[];
+        exclude?: string[];
+    }): Promise<Lavalink>;
+    /**
+     * Load tracks using the ideal node for a region
+     * @param {string} identifier The identifier to load, e.g. a url or `ytsearch:query`
+     * @param {string} [region] Optional region used to pick the node
+     * @returns {Promise<LoadTracksResponse>}
      */
-    findIdealNode(region: string): Promise<Lavalink>;
+    loadTracks(identifier: string, region?: string): Promise<LoadTracksResponse>;
     /**
-     * Called by eris when a voice server update is received
-     * @param {*} data The voice server update from eris
+     * Decode a single base64 track using the ideal node for a region
+     * @param {string} track The base64 track to decode
+     * @param {string} [region] Optional region used to pick the node
+     * @returns {Promise<TrackInfo>}
+     */
+    decodeTrack(track: string, region?: string): Promise<TrackInfo>;
+    /**
+     * Decode several base64 tracks using the ideal node for a region
+     * @param {string[]} tracks The base64 tracks to decode
+     * @param {string} [region] Optional region used to pick the node
+     * @returns {Promise<Track[]>}
+     */
+    decodeTracks(tracks: string[], region?: string): Promise<Track[]>;
+    /**
+     * Find a node to use for REST requests
+     * @param {string} [region] Optional region used to pick the node
+     * @private
+     */
+    getRestNode(region?: string): Promise<Lavalink>;
+    /**
+     * Called by eris when a voice server update is received, ignored when the voice events are handled through rawWS
+     * since eris sets the gateway session instead of the voice session of the bot
+     * @param {VoiceServerUpdate} data The voice server update from eris
      * @private
      */
-    voiceServerUpdate(data: any): Promise<any | undefined>;
+    voiceServerUpdate(data: VoiceServerUpdate): Promise<void>;
+    /**
+     * Connect the player of a guild with a voice server update
+     * @param {VoiceServerUpdate} data The voice server update with the voice session of the bot
+     * @private
+     */
+    connectVoiceServer(data: VoiceServerUpdate): Promise<void>;
+    /**
+     * Get a snapshot of the recorded metrics and the current nodes and players
+     * @returns {MetricsSnapshot}
+     */
+    getMetrics(): MetricsSnapshot;
+    /**
+     * Get the metrics in the Prometheus text exposition format
+     * @param {string} [prefix='eris_lavalink'] The prefix of the metric names
+     * @returns {string}
+     */
+    getPrometheusMetrics(prefix?: string): string;
     /**
      * Get ideal region from data
      * @param {string} endpoint Endpoint or region
@@ -0,0 +1,298 @@
+import { TrackInfo } from './Lavalink';
+/**
+ * A single equalizer band, band ranges from 0 to 14 and gain from -0.25 to 1
+ */
+export interface EqualizerBand {
+    band: number;
+    gain: number;
+}
+/**
+ * The audio filters supported by Lavalink
+ */
+export interface Filters {
+    volume?: number;
+    equalizer?: EqualizerBand[];
+    karaoke?: {
+        level?: number;
+        monoLevel?: number;
+        filterBand?: number;
+        filterWidth?: number;
+    };
+    timescale?: {
+        speed?: number;
+        pitch?: number;
+        rate?: number;
+    };
+    tremolo?: {
+        frequency?: number;
+        depth?: number;
+    };
+    vibrato?: {
+        frequency?: number;
+        depth?: number;
+    };
+    rotation?: {
+        rotationHz?: number;
+    };
+    distortion?: {
+        sinOffset?: number;
+        sinScale?: number;
+        cosOffset?: number;
+        cosScale?: number;
+        tanOffset?: number;
+        tanScale?: number;
+        offset?: number;
+        scale?: number;
+    };
+    channelMix?: {
+        leftToLeft?: number;
+        leftToRight?: number;
+        rightToLeft?: number;
+        rightToRight?: number;
+    };
+    lowPass?: {
+        smoothing?: number;
+    };
+}
+/**
+ * Options accepted by the play op
+ */
+export interface PlayOptions {
+    startTime?: number;
+    endTime?: number;
+    volume?: number;
+    noReplace?: boolean;
+    pause?: boolean;
+}
+export interface PlayPayload extends PlayOptions {
+    op: 'play';
+    guildId: string;
+    track: string;
+}
+export interface StopPayload {
+    op: 'stop';
+    guildId: string;
+}
+export interface PausePayload {
+    op: 'pause';
+    guildId: string;
+    pause: boolean;
+}
+export interface SeekPayload {
+    op: 'seek';
+    guildId: string;
+    position: number;
+}
+export interface VolumePayload {
+    op: 'volume';
+    guildId: string;
+    volume: number;
+}
+export interface EqualizerPayload {
+    op: 'equalizer';
+    guildId: string;
+    bands: EqualizerBand[];
+}
+export interface FiltersPayload extends Filters {
+    op: 'filters';
+    guildId: string;
+}
+export interface DestroyPayload {
+    op: 'destroy';
+    guildId: string;
+}
+export interface VoiceUpdatePayload {
+    op: 'voiceUpdate';
+    guildId: string;
+    sessionId: string;
+    event: {
+        endpoint: string;
+        guild_id: string;
+        token: string;
+    };
+}
+export interface ConfigureResumingPayload {
+    op: 'configureResuming';
+    key: string;
+    timeout: number;
+}
+/**
+ * Any payload sent to Lavalink
+ */
+export declare type OutboundPayload = PlayPayload | StopPayload | PausePayload | SeekPayload | VolumePayload | EqualizerPayload | FiltersPayload | DestroyPayload | VoiceUpdatePayload | ConfigureResumingPayload;
+/**
+ * The node stats sent by Lavalink
+ */
+export interface NodeStats {
+    players: number;
+    playingPlayers: number;
+    uptime: number;
+    memory: {
+        free: number;
+        used: number;
+        allocated: number;
+        reservable: number;
+    };
+    cpu: {
+        cores: number;
+        systemLoad: number;
+        lavalinkLoad: number;
+    };
+    frameStats?: {
+        sent: number;
+        nulled: number;
+        deficit: number;
+    };
+}
+export interface ReadyPayload {
+    op: 'ready';
+    resumed: boolean;
+    sessionId: string;
+}
+export interface StatsPayload extends NodeStats {
+    op: 'stats';
+}
+/**
+ * The state of a player sent by Lavalink
+ */
+export interface PlayerState {
+    time?: number;
+    position?: number;
+}
+export interface PlayerUpdatePayload {
+    op: 'playerUpdate';
+    guildId: string;
+    state: PlayerState;
+}
+export declare type TrackEndReason = 'FINISHED' | 'LOAD_FAILED' | 'STOPPED' | 'REPLACED' | 'CLEANUP';
+export declare type ExceptionSeverity = 'COMMON' | 'SUSPICIOUS' | 'FAULT';
+export interface TrackStartEvent {
+    op: 'event';
+    type: 'TrackStartEvent';
+    guildId: string;
+    track: string;
+}
+export interface TrackEndEvent {
+    op: 'event';
+    type: 'TrackEndEvent';
+    guildId: string;
+    track: string;
+    reason: TrackEndReason;
+}
+export interface TrackExceptionEvent {
+    op: 'event';
+    type: 'TrackExceptionEvent';
+    guildId: string;
+    track: string;
+    error?: string;
+    exception?: {
+        message: string;
+        severity: ExceptionSeverity;
+        cause: string;
+    };
+}
+export interface TrackStuckEvent {
+    op: 'event';
+    type: 'TrackStuckEvent';
+    guildId: string;
+    track: string;
+    thresholdMs: number;
+}
+export interface WebSocketClosedEvent {
+    op: 'event';
+    type: 'WebSocketClosedEvent';
+    guildId: string;
+    code: number;
+    reason: string;
+    byRemote: boolean;
+}
+/**
+ * Any player event sent by Lavalink
+ */
+export declare type EventPayload = TrackStartEvent | TrackEndEvent | TrackExceptionEvent | TrackStuckEvent | WebSocketClosedEvent;
+/**
+ * Any payload received from Lavalink
+ */
+export declare type InboundPayload = ReadyPayload | StatsPayload | PlayerUpdatePayload | EventPayload;
+/**
+ * The body of a Lavalink v4 player update
+ */
+export interface RestPlayerUpdate {
+    encodedTrack?: string | null;
+    position?: number;
+    endTime?: number;
+    volume?: number;
+    paused?: boolean;
+    filters?: Filters;
+    voice?: {
+        token: string;
+        endpoint: string;
+        sessionId: string;
+    };
+}
+/**
+ * A Lavalink v4 REST request equivalent to a websocket op
+ */
+export interface RestRequest {
+    method: 'PATCH' | 'DELETE';
+    path: string;
+    body?: RestPlayerUpdate | {
+        resuming: boolean;
+        timeout: number;
+    };
+}
+/**
+ * A track returned by the Lavalink v4 REST api
+ */
+export interface RestTrack {
+    encoded: string;
+    info: TrackInfo;
+}
+/**
+ * The response of the Lavalink v4 loadtracks endpoint
+ */
+export declare type RestLoadResult = {
+    loadType: 'track';
+    data: RestTrack;
+} | {
+    loadType: 'playlist';
+    data: {
+        info: {
+            name: string;
+            selectedTrack: number;
+        };
+        tracks: RestTrack[];
+    };
+} | {
+    loadType: 'search';
+    data: RestTrack[];
+} | {
+    loadType: 'empty';
+    data: {};
+} | {
+    loadType: 'error';
+    data: {
+        message: string;
+        severity: string;
+        cause: string;
+    };
+};
+/**
+ * Validate a payload received from Lavalink
+ * @param {*} data The parsed payload
+ * @returns {string} The reason the payload is malformed, null if it is valid
+ */
+export declare function validateMessage(data: any): string;
+/**
+ * Convert a payload received from a Lavalink v4 node to the legacy shape, tracks are objects and reasons are camel case in v4
+ * @param {*} data The parsed payload
+ * @returns {*} The converted payload, not validated
+ */
+export declare function fromV4Message(data: any): any;
+/**
+ * Convert a websocket op to the equivalent Lavalink v4 REST request
+ * @param {OutboundPayload} payload The op
+ * @param {string} sessionId The session ID of the node
+ * @returns {RestRequest}
+ */
+export declare function toV4Request(payload: OutboundPayload, sessionId: string): RestRequest;
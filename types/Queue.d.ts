@@ -0,0 +1,98 @@
+/**
+ * The loop mode of a queue
+ */
+export declare type LoopMode = 'off' | 'track' | 'queue';
+/**
+ * Represents a track queue attached to a player
+ * @prop {string[]} tracks The upcoming tracks
+ * @prop {string[]} history The previously played tracks, most recent last
+ * @prop {string} loop The loop mode, one of off, track or queue
+ * @prop {number} historyLimit The maximum amount of tracks kept in the history
+ */
+declare class Queue {
+    tracks: string[];
+    history: string[];
+    loop: LoopMode;
+    historyLimit: number;
+    /**
+     * Queue constructor
+     * @param {Object} [options] Queue options
+     * @param {number} [options.historyLimit=50] The maximum amount of tracks kept in the history
+     */
+    constructor(options?: {
+        historyLimit?: number;
+    });
+    /**
+     * The amount of upcoming tracks
+     */
+    get length(): number;
+    /**
+     * Add tracks to the end of the queue
+     * @param {...string} tracks The tracks to add
+     * @returns {number} The new length of the queue
+     */
+    enqueue(...tracks: string[]): number;
+    /**
+     * Remove and return the first track of the queue
+     * @returns {string} The track or undefined if the queue is empty
+     */
+    dequeue(): string;
+    /**
+     * Return the first track of the queue without removing it
+     * @returns {string}
+     */
+    peek(): string;
+    /**
+     * Insert a track at a position
+     * @param {number} index The position to insert at
+     * @param {string} track The track to insert
+     * @returns {number} The new length of the queue
+     */
+    insert(index: number, track: string): number;
+    /**
+     * Move a track to a new position
+     * @param {number} from The current position of the track
+     * @param {number} to The new position of the track
+     * @returns {boolean} False if there is no track at the current position
+     */
+    move(from: number, to: number): boolean;
+    /**
+     * Remove a track at a position
+     * @param {number} index The position of the track
+     * @returns {string} The removed track or undefined
+     */
+    remove(index: number): string;
+    /**
+     * Shuffle the upcoming tracks
+     * @returns {void}
+     */
+    shuffle(): void;
+    /**
+     * Remove all upcoming tracks
+     * @param {boolean} [history=false] Whether to clear the history too
+     * @returns {void}
+     */
+    clear(history?: boolean): void;
+    /**
+     * Get the next track to play after the current one, respecting the loop mode
+     * @param {string} current The track that just finished
+     * @param {boolean} [skip=false] Ignore the track loop mode, used when skipping
+     * @returns {string} The next track or undefined if there is none
+     * @private
+     */
+    next(current: string, skip?: boolean): string;
+    /**
+     * Get the previously played track and put the current one back in front of the queue
+     * @param {string} current The track currently playing
+     * @returns {string} The previous track or undefined if there is none
+     * @private
+     */
+    previous(current: string): string;
+    /**
+     * Add a track to the history
+     * @param {string} track The played track
+     * @private
+     */
+    addHistory(track: string): void;
+}
+export default Queue;
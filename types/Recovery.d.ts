@@ -0,0 +1,47 @@
+import { ExceptionSeverity } from './Protocol';
+/**
+ * What a player does when a track gets stuck or fails
+ * - retry: play the same track again from its last position
+ * - switchNode: move the player to another node and play the track from its last position
+ * - skip: play the next track of the queue, stops if there is none
+ * - stop: stop the player
+ */
+export declare type RecoveryAction = 'retry' | 'switchNode' | 'skip' | 'stop';
+/**
+ * How a player recovers from stuck and failed tracks
+ */
+export interface RecoveryPolicy {
+    maxRetries: number;
+    stuck: RecoveryAction;
+    exceptions: {
+        [severity in ExceptionSeverity]: RecoveryAction;
+    };
+    fallback: 'skip' | 'stop';
+}
+/**
+ * Emitted when a player recovered from a stuck or failed track
+ */
+export interface RecoveryEvent {
+    cause: 'stuck' | 'exception';
+    severity: ExceptionSeverity;
+    action: RecoveryAction;
+    track: string;
+    position: number;
+    attempt: number;
+}
+/**
+ * The options of a recovery policy, missing options use the defaults
+ */
+export declare type RecoveryOptions = Partial<Omit<RecoveryPolicy, 'exceptions'>> & {
+    exceptions?: Partial<RecoveryPolicy['exceptions']>;
+};
+/**
+ * Create a recovery policy
+ * @param {Object} [options] The policy options
+ * @param {number} [options.maxRetries=2] The number of retries and node switches per track, the fallback is used afterwards
+ * @param {string} [options.stuck='retry'] The action for stuck tracks
+ * @param {Object} [options.exceptions] The action per exception severity, COMMON retries, SUSPICIOUS switches node and FAULT skips by default
+ * @param {string} [options.fallback='skip'] The action once the retries are exhausted or no other node is available, skip or stop
+ * @returns {RecoveryPolicy}
+ */
+export declare function createRecoveryPolicy(options?: RecoveryOptions): RecoveryPolicy;
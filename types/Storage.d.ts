@@ -0,0 +1,85 @@
+/// <reference types="node" />
+import { LoopMode } from './Queue';
+import { Filters } from './Protocol';
+/**
+ * The persisted state of a player
+ */
+export interface PlayerSnapshot {
+    guildId: string;
+    channelId: string;
+    host: string;
+    track: string;
+    position: number;
+    volume: number;
+    paused: boolean;
+    filters: Filters;
+    queue?: {
+        tracks: string[];
+        history: string[];
+        loop: LoopMode;
+    };
+    timestamp: number;
+}
+/**
+ * Stores player snapshots, methods may return promises
+ */
+export interface StorageAdapter {
+    get(guildId: string): PlayerSnapshot | Promise<PlayerSnapshot>;
+    set(guildId: string, snapshot: PlayerSnapshot): void | Promise<void>;
+    delete(guildId: string): void | Promise<void>;
+    getAll(): PlayerSnapshot[] | Promise<PlayerSnapshot[]>;
+}
+/**
+ * Keeps player snapshots in memory, useful for tests or when the manager is recreated in the same process
+ */
+export declare class MemoryStorage implements StorageAdapter {
+    snapshots: Map<string, PlayerSnapshot>;
+    constructor();
+    get(guildId: string): PlayerSnapshot;
+    set(guildId: string, snapshot: PlayerSnapshot): void;
+    delete(guildId: string): void;
+    getAll(): PlayerSnapshot[];
+}
+/**
+ * Keeps player snapshots in a JSON file, writes are batched
+ * @prop {string} path The path of the JSON file
+ * @prop {number} writeDelay The time in ms changes are batched before writing
+ */
+export declare class JSONFileStorage implements StorageAdapter {
+    path: string;
+    writeDelay: number;
+    snapshots: {
+        [guildId: string]: PlayerSnapshot;
+    };
+    loading: Promise<void>;
+    writeTimeout: NodeJS.Timeout;
+    writing: Promise<void>;
+    /**
+     * JSONFileStorage constructor
+     * @param {string} path The path of the JSON file
+     * @param {Object} [options] Storage options
+     * @param {number} [options.writeDelay=1000] The time in ms changes are batched before writing
+     */
+    constructor(path: string, options?: {
+        writeDelay?: number;
+    });
+    /**
+     * Load the file once
+     * @private
+     */
+    load(): Promise<void>;
+    get(guildId: string): Promise<PlayerSnapshot>;
+    set(guildId: string, snapshot: PlayerSnapshot): Promise<void>;
+    delete(guildId: string): Promise<void>;
+    getAll(): Promise<PlayerSnapshot[]>;
+    /**
+     * Write any pending changes now
+     * @returns {Promise<void>}
+     */
+    flush(): Promise<void>;
+    /**
+     * Write the file after the write delay
+     * @private
+     */
+    scheduleWrite(): void;
+}
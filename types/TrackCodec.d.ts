@@ -0,0 +1,35 @@
+import { TrackInfo } from './Lavalink';
+/**
+ * Information decoded locally from a base64 track
+ */
+export interface DecodedTrackInfo extends TrackInfo {
+    sourceName: string;
+    version: number;
+    artworkUrl?: string;
+    isrc?: string;
+}
+/**
+ * Decode a base64 Lavalink track without a request to the node
+ * @param {string} track The base64 track
+ * @returns {DecodedTrackInfo}
+ * @throws {RangeError} If the track is malformed
+ */
+export declare function decodeTrack(track: string): DecodedTrackInfo;
+/**
+ * Encode track info into a base64 Lavalink track, sources that store extra fields (e.g. http) are not supported
+ * @param {Object} info The track info
+ * @param {number} [version=2] The track format version, 1 has no uri and 3 adds artworkUrl and isrc
+ * @returns {string}
+ */
+export declare function encodeTrack(info: {
+    title: string;
+    author: string;
+    length: number;
+    identifier: string;
+    isStream: boolean;
+    uri?: string;
+    sourceName: string;
+    position?: number;
+    artworkUrl?: string;
+    isrc?: string;
+}, version?: number): string;
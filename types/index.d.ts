@@ -1,9 +1,32 @@
-import Player from "./Player";
-import PlayerManager from "./PlayerManager";
-import Lavalink from "./Lavalink";
+import Player from './Player';
+import PlayerManager from './PlayerManager';
+import Lavalink from './Lavalink';
+import Queue from './Queue';
+import Metrics from './Metrics';
+import MockLavalink from './MockLavalink';
+import { JSONFileStorage, MemoryStorage } from './Storage';
+export { LoadType, TrackInfo, Track, LoadTracksResponse, LavalinkEvents, LavalinkOptions, ReconnectPolicy, HeartbeatOptions, BufferOptions, DropReason } from './Lavalink';
+export { LoopMode } from './Queue';
+export { FilterPreset, FilterPresets, validateFilters, composeFilters, mergeEqualizer } from './Filters';
+export { AutoLeaveEvent, PlayerEvents, PlayerMessage, VoiceClosedEvent } from './Player';
+export { NodeSelectionContext, NodeSelector, NodeSelectionStrategy, createNodeSelector, nodePenalty } from './NodeSelection';
+export { JoinSignal, VoiceReconnectOptions, VoiceServerUpdate } from './PlayerManager';
+export { CommandTimeoutError, InvalidChannelError, JoinAbortedError, JoinTimeoutError, NoNodesAvailableError, PlaybackError, RestoreTimeoutError, UnknownGuildError } from './Errors';
+export { DecodedTrackInfo, decodeTrack, encodeTrack } from './TrackCodec';
+export { AutoplayResolver, defaultAutoplayResolver } from './Autoplay';
+export { RecoveryAction, RecoveryEvent, RecoveryOptions, RecoveryPolicy, createRecoveryPolicy } from './Recovery';
+export { MetricsSnapshot, NodeMetrics, NodeStatsSample } from './Metrics';
+export { MockLavalinkEvents, MockRequest } from './MockLavalink';
+export { PlayerSnapshot, StorageAdapter, MemoryStorage, JSONFileStorage } from './Storage';
+export * from './Protocol';
 declare const _default: {
     Player: typeof Player;
     PlayerManager: typeof PlayerManager;
     Lavalink: typeof Lavalink;
+    Queue: typeof Queue;
+    Metrics: typeof Metrics;
+    MockLavalink: typeof MockLavalink;
+    MemoryStorage: typeof MemoryStorage;
+    JSONFileStorage: typeof JSONFileStorage;
 };
 export default _default;